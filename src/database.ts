@@ -1,5 +1,5 @@
-import { MongoClient, Db, Collection } from 'mongodb';
-import { Patient, Treatment, Appointment } from './models';
+import { MongoClient, Db, Collection, Document, IndexSpecification, CreateIndexesOptions } from 'mongodb';
+import { Patient, Treatment, Appointment, AppointmentSeries, Practitioner, Room, WorkingHours, ClosurePeriod, CalendarFeed, WaitlistEntry, WaitlistOffer, TreatmentTemplate, TreatmentPlan, AiSummary, ConsentTemplate, ConsentRecord, Counter } from './models';
 
 // Database connection URL - defaults to local MongoDB
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017';
@@ -13,6 +13,20 @@ let db: Db | null = null;
 export let patientsCollection: Collection<Patient> | null = null;
 export let treatmentsCollection: Collection<Treatment> | null = null;
 export let appointmentsCollection: Collection<Appointment> | null = null;
+export let appointmentSeriesCollection: Collection<AppointmentSeries> | null = null;
+export let practitionersCollection: Collection<Practitioner> | null = null;
+export let roomsCollection: Collection<Room> | null = null;
+export let workingHoursCollection: Collection<WorkingHours> | null = null;
+export let closuresCollection: Collection<ClosurePeriod> | null = null;
+export let calendarFeedsCollection: Collection<CalendarFeed> | null = null;
+export let waitlistCollection: Collection<WaitlistEntry> | null = null;
+export let waitlistOffersCollection: Collection<WaitlistOffer> | null = null;
+export let treatmentTemplatesCollection: Collection<TreatmentTemplate> | null = null;
+export let treatmentPlansCollection: Collection<TreatmentPlan> | null = null;
+export let aiSummariesCollection: Collection<AiSummary> | null = null;
+export let consentTemplatesCollection: Collection<ConsentTemplate> | null = null;
+export let consentsCollection: Collection<ConsentRecord> | null = null;
+export let countersCollection: Collection<Counter> | null = null;
 
 /**
  * Connect to MongoDB and initialize collections
@@ -33,12 +47,29 @@ export async function connectDatabase(): Promise<void> {
         patientsCollection = db.collection<Patient>('patients');
         treatmentsCollection = db.collection<Treatment>('treatments');
         appointmentsCollection = db.collection<Appointment>('appointments');
+        appointmentSeriesCollection = db.collection<AppointmentSeries>('appointmentSeries');
+        practitionersCollection = db.collection<Practitioner>('practitioners');
+        roomsCollection = db.collection<Room>('rooms');
+        workingHoursCollection = db.collection<WorkingHours>('workingHours');
+        closuresCollection = db.collection<ClosurePeriod>('closures');
+        calendarFeedsCollection = db.collection<CalendarFeed>('calendarFeeds');
+        waitlistCollection = db.collection<WaitlistEntry>('waitlist');
+        waitlistOffersCollection = db.collection<WaitlistOffer>('waitlistOffers');
+        treatmentTemplatesCollection = db.collection<TreatmentTemplate>('treatmentTemplates');
+        treatmentPlansCollection = db.collection<TreatmentPlan>('treatmentPlans');
+        aiSummariesCollection = db.collection<AiSummary>('aiSummaries');
+        consentTemplatesCollection = db.collection<ConsentTemplate>('consentTemplates');
+        consentsCollection = db.collection<ConsentRecord>('consents');
+        countersCollection = db.collection<Counter>('counters');
 
         // Create indexes for better query performance
         await createIndexes();
 
+        // Make sure id sequences start after any existing ids
+        await initializeCounters();
+
         console.log(`Connected to MongoDB database: ${DB_NAME}`);
-        console.log(`Initialized collections: patients, treatments, appointments`);
+        console.log(`Initialized collections: patients, treatments, appointments, appointmentSeries, practitioners, rooms, workingHours, closures, calendarFeeds, waitlist, waitlistOffers, treatmentTemplates, treatmentPlans, aiSummaries, consentTemplates, consents, counters`);
     } catch (error) {
         console.error('Failed to connect to MongoDB:', error);
         throw error;
@@ -46,34 +77,169 @@ export async function connectDatabase(): Promise<void> {
 }
 
 /**
- * Create database indexes for optimized queries
+ * Create an index, logging failures so that one failing index does not prevent the others from being created
  */
-async function createIndexes(): Promise<void> {
-    if (!db) return;
+async function ensureIndex<T extends Document>(
+    collection: Collection<T> | null,
+    keys: IndexSpecification,
+    options: CreateIndexesOptions = {}
+): Promise<void> {
+    if (!collection) return;
 
     try {
-        // Patients indexes
-        await patientsCollection?.createIndex({ id: 1 }, { unique: true });
-        await patientsCollection?.createIndex({ email: 1 }, { unique: true, sparse: true });
-        await patientsCollection?.createIndex({ fiscalCode: 1 }, { unique: true, sparse: true });
-        await patientsCollection?.createIndex({ surname: 1, name: 1 });
-        
-        // Treatments indexes
-        await treatmentsCollection?.createIndex({ id: 1 }, { unique: true });
-        await treatmentsCollection?.createIndex({ patientId: 1 });
-        await treatmentsCollection?.createIndex({ date: 1 });
-        
-        // Appointments indexes
-        await appointmentsCollection?.createIndex({ patientId: 1 });
-        await appointmentsCollection?.createIndex({ date: 1 });
+        await collection.createIndex(keys, options);
+    } catch (error) {
+        console.error(`Error creating index ${options.name ?? JSON.stringify(keys)} on ${collection.collectionName}:`, error);
+    }
+}
+
+/**
+ * Drop an index replaced by a newer definition, if it still exists
+ */
+async function dropIndexIfExists<T extends Document>(collection: Collection<T> | null, name: string): Promise<void> {
+    if (!collection) return;
 
-        console.log('Database indexes created');
+    try {
+        if (await collection.indexExists(name)) {
+            await collection.dropIndex(name);
+        }
     } catch (error) {
-        console.error('Error creating indexes:', error);
-        // Don't throw - indexes are optional optimizations
+        console.error(`Error dropping index ${name} on ${collection.collectionName}:`, error);
     }
 }
 
+/**
+ * Create database indexes for optimized queries
+ */
+async function createIndexes(): Promise<void> {
+    if (!db) return;
+
+    // Patients indexes
+    await ensureIndex(patientsCollection, { id: 1 }, { unique: true });
+    // Soft-deleted patients no longer reserve their email and fiscal code
+    await dropIndexIfExists(patientsCollection, 'email_1');
+    await dropIndexIfExists(patientsCollection, 'fiscalCode_1');
+    await ensureIndex(
+        patientsCollection,
+        { email: 1 },
+        { name: 'email_active', unique: true, partialFilterExpression: { email: { $exists: true }, deletedAt: null } }
+    );
+    await ensureIndex(
+        patientsCollection,
+        { fiscalCode: 1 },
+        { name: 'fiscalCode_active', unique: true, partialFilterExpression: { fiscalCode: { $exists: true }, deletedAt: null } }
+    );
+    // Listings sorted by surname end with _id, so the older { surname, name } index is superseded
+    await dropIndexIfExists(patientsCollection, 'surname_1_name_1');
+    await ensureIndex(patientsCollection, { surname: 1, name: 1, _id: 1 });
+    await ensureIndex(patientsCollection, { deletedAt: 1 });
+    // Full-text search; Italian stemming, text indexes also ignore case and accents
+    await ensureIndex(patientsCollection,
+        {
+            anamnesi: 'text',
+            'anamnesis.chronicConditions': 'text',
+            'anamnesis.pastSurgeries': 'text',
+            'anamnesis.lifestyle': 'text',
+            'anamnesis.allergies': 'text',
+            'anamnesis.currentMedications': 'text'
+        },
+        { name: 'anamnesis_text', default_language: 'italian', language_override: 'textSearchLanguage' }
+    );
+    
+    // Treatments indexes
+    await ensureIndex(treatmentsCollection, { id: 1 }, { unique: true });
+    await ensureIndex(treatmentsCollection, { patientId: 1 });
+    await ensureIndex(treatmentsCollection, { date: 1 });
+    await ensureIndex(treatmentsCollection, { planId: 1 }, { sparse: true });
+    await ensureIndex(treatmentsCollection,
+        { appointmentId: 1 },
+        { unique: true, partialFilterExpression: { appointmentId: { $exists: true } } }
+    );
+    await ensureIndex(treatmentsCollection,
+        {
+            content: 'text',
+            'soap.subjective': 'text',
+            'soap.objective': 'text',
+            'soap.assessment': 'text',
+            'soap.plan': 'text',
+            'attachemnts.data': 'text', // Text attachments; file attachments only contribute their file name
+            'amendments.content': 'text'
+        },
+        {
+            name: 'treatments_text',
+            default_language: 'italian',
+            language_override: 'textSearchLanguage',
+            weights: { content: 3 }
+        }
+    );
+    
+    // Appointments indexes
+    await ensureIndex(appointmentsCollection, { patientId: 1 });
+    await ensureIndex(appointmentsCollection, { date: 1 });
+    await ensureIndex(appointmentsCollection, { status: 1, date: 1 });
+    await ensureIndex(appointmentsCollection,
+        { seriesId: 1, originalDate: 1 },
+        { unique: true, partialFilterExpression: { seriesId: { $exists: true } } }
+    );
+
+    await ensureIndex(appointmentsCollection, { practitionerId: 1, date: 1 });
+    await ensureIndex(appointmentsCollection, { roomId: 1, date: 1 });
+    // Each calendar event is imported at most once
+    await dropIndexIfExists(appointmentsCollection, 'sourceUid_1');
+    await ensureIndex(appointmentsCollection, { sourceUid: 1 }, { name: 'sourceUid_unique', unique: true, sparse: true });
+    await ensureIndex(appointmentsCollection, { planId: 1, date: 1 }, { sparse: true });
+
+    // Appointment series indexes
+    await ensureIndex(appointmentSeriesCollection, { dtstart: 1, endsAt: 1 });
+
+    // Practitioner and room indexes
+    await ensureIndex(practitionersCollection, { surname: 1, name: 1 });
+    await ensureIndex(roomsCollection, { name: 1 }, { unique: true });
+
+    // Closure indexes
+    await ensureIndex(closuresCollection, { startDate: 1, endDate: 1 });
+
+    // Calendar feed indexes
+    await ensureIndex(calendarFeedsCollection, { tokenHash: 1 }, { unique: true });
+
+    // Waitlist indexes
+    await ensureIndex(waitlistCollection, { status: 1, priority: -1, createdAt: 1 });
+    await ensureIndex(waitlistCollection, { patientId: 1 });
+    await ensureIndex(waitlistOffersCollection, { status: 1, expiresAt: 1 });
+    await ensureIndex(waitlistOffersCollection, { sourceAppointmentId: 1 });
+
+    // Treatment template indexes
+    await ensureIndex(treatmentTemplatesCollection, { name: 1 }, { unique: true });
+
+    // Treatment plan indexes
+    await ensureIndex(treatmentPlansCollection, { patientId: 1, status: 1, startDate: -1 });
+
+    // AI summaries indexes
+    await ensureIndex(aiSummariesCollection, { patientId: 1, generatedAt: -1 });
+
+    // Consent indexes
+    await ensureIndex(consentTemplatesCollection, { type: 1, version: -1 }, { unique: true });
+    // The current consent is the latest record entered, whatever its grant date
+    await dropIndexIfExists(consentsCollection, 'patientId_1_type_1_grantedAt_-1');
+    await ensureIndex(consentsCollection, { patientId: 1, type: 1, createdAt: -1, _id: -1 });
+
+    console.log('Database indexes created');
+}
+
+/**
+ * Raise the id sequences to the highest id already stored, so that
+ * server-assigned ids never collide with client-assigned ones
+ */
+async function initializeCounters(): Promise<void> {
+    if (!countersCollection || !patientsCollection || !treatmentsCollection) return;
+
+    const [lastPatient] = await patientsCollection.find({}).sort({ id: -1 }).limit(1).toArray();
+    const [lastTreatment] = await treatmentsCollection.find({}).sort({ id: -1 }).limit(1).toArray();
+
+    await countersCollection.updateOne({ _id: 'patients' }, { $max: { seq: lastPatient?.id ?? 0 } }, { upsert: true });
+    await countersCollection.updateOne({ _id: 'treatments' }, { $max: { seq: lastTreatment?.id ?? 0 } }, { upsert: true });
+}
+
 /**
  * Close database connection
  */
@@ -86,6 +252,20 @@ export async function closeDatabase(): Promise<void> {
             patientsCollection = null;
             treatmentsCollection = null;
             appointmentsCollection = null;
+            appointmentSeriesCollection = null;
+            practitionersCollection = null;
+            roomsCollection = null;
+            workingHoursCollection = null;
+            closuresCollection = null;
+            calendarFeedsCollection = null;
+            waitlistCollection = null;
+            waitlistOffersCollection = null;
+            treatmentTemplatesCollection = null;
+            treatmentPlansCollection = null;
+            aiSummariesCollection = null;
+            consentTemplatesCollection = null;
+            consentsCollection = null;
+            countersCollection = null;
             console.log('Database connection closed');
         }
     } catch (error) {
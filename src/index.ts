@@ -6,6 +6,17 @@ import treatmentRoutes from './routes/treatmentRoutes';
 import appointmentRoutes from './routes/appointmentRoutes';
 import statsRoutes from './routes/statsRoutes';
 import aiRoutes from './routes/aiRoutes';
+import consentRoutes from './routes/consentRoutes';
+import practitionerRoutes from './routes/practitionerRoutes';
+import roomRoutes from './routes/roomRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
+import calendarRoutes from './routes/calendarRoutes';
+import waitlistRoutes from './routes/waitlistRoutes';
+import treatmentTemplateRoutes from './routes/treatmentTemplateRoutes';
+import treatmentPlanRoutes from './routes/treatmentPlanRoutes';
+import searchRoutes from './routes/searchRoutes';
+import { ReminderService } from './services/reminderService';
+import { WaitlistService } from './services/waitlistService';
 import { HTTPError } from './utils/errors';
 import { createApiError } from './types/api';
 
@@ -16,7 +27,7 @@ app.onError((err, c) => {
     console.error('Error:', err);
     
     if (err instanceof HTTPError) {
-        return c.json(createApiError(err.errorCode, err.message), err.statusCode as any);
+        return c.json(createApiError(err.errorCode, err.message, err.details), err.statusCode as any);
     }
   
     return c.json(createApiError('Server Error', err.message || 'An unexpected error occurred'), 500);
@@ -37,12 +48,24 @@ app.get('/health', (c) => {
 // API routes
 app.route('/api/patients', patientRoutes);
 app.route('/api/treatments', treatmentRoutes);
+app.route('/api/treatment-templates', treatmentTemplateRoutes);
+app.route('/api/treatment-plans', treatmentPlanRoutes);
 app.route('/api/appointments', appointmentRoutes);
 app.route('/api/stats', statsRoutes);
 app.route('/api/ai', aiRoutes);
+app.route('/api/consents', consentRoutes);
+app.route('/api/practitioners', practitionerRoutes);
+app.route('/api/rooms', roomRoutes);
+app.route('/api/schedule', scheduleRoutes);
+app.route('/api/calendar', calendarRoutes);
+app.route('/api/waitlist', waitlistRoutes);
+app.route('/api/search', searchRoutes);
 
-// Connect to database on startup
-connectDatabase().catch((error) => {
+// Connect to database on startup, then start the reminder and waitlist schedulers
+connectDatabase().then(() => {
+    ReminderService.start();
+    WaitlistService.start();
+}).catch((error) => {
     console.error('Failed to initialize database:', error);
     process.exit(1);
 });
@@ -50,12 +73,16 @@ connectDatabase().catch((error) => {
 // Graceful shutdown
 process.on('SIGINT', async () => {
     console.log('\nShutting down gracefully...');
+    ReminderService.stop();
+    WaitlistService.stop();
     await closeDatabase();
     process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
     console.log('\nShutting down gracefully...');
+    ReminderService.stop();
+    WaitlistService.stop();
     await closeDatabase();
     process.exit(0);
 });
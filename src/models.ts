@@ -3,6 +3,7 @@ export interface TreatmentAttachment {
     data: string; // Either the string content or the filename of the file (for backward compatibility)
     path?: string; // Full path to the file on the server
     originalName?: string; // Original filename when uploaded
+    uploadedAt?: Date; // When the file was uploaded (missing on older attachments)
 }
 
 export interface Patient {
@@ -13,12 +14,48 @@ export interface Patient {
     email: string;
     phoneNumber: string;
     dateOfBirth: string;
+    sex?: 'M' | 'F';
+    birthPlaceCode?: string; // Belfiore code derived from the fiscal code
     address: string;
     fiscalCode: string;
-    anamnesi?: string;
+    anamnesi?: string; // Legacy free-text anamnesis, still readable and writable
+    anamnesis?: Anamnesis; // Structured anamnesis (current values)
+    anamnesisHistory?: AnamnesisRevision[]; // Every change to the anamnesis, oldest first
     treatments: Treatment[];
     createdAt?: Date;
     updatedAt?: Date;
+    deletedAt?: Date; // Set when the patient is soft-deleted
+    mergedFrom?: PatientMergeRecord[]; // Duplicates that were merged into this patient
+    mergedInto?: number; // Surviving patient id, when this record was merged away
+    anonymisedAt?: Date; // Set once identity fields have been irreversibly pseudonymised
+    reminderOptOut?: NotificationChannelName[]; // Channels the patient does not want reminders on
+}
+
+export interface Anamnesis {
+    allergies: string[];
+    currentMedications: string[];
+    chronicConditions: string[];
+    pastSurgeries: string[];
+    lifestyle: string;
+}
+
+export type AnamnesisSection = keyof Anamnesis;
+
+export interface AnamnesisRevision {
+    revision: number;
+    changedAt: Date;
+    changedFields: (AnamnesisSection | 'anamnesi')[];
+    anamnesis: Anamnesis; // Structured values after the change
+    anamnesi?: string; // Legacy free text after the change
+}
+
+export interface PatientMergeRecord {
+    patientId: number;
+    mergedAt: Date;
+    treatmentsMoved: number;
+    appointmentsMoved: number;
+    // Identity of the duplicate at the time of the merge
+    snapshot: Pick<Patient, 'name' | 'surname' | 'email' | 'phoneNumber' | 'dateOfBirth' | 'fiscalCode'>;
 }
 
 export interface Treatment {
@@ -28,17 +65,315 @@ export interface Treatment {
     date: string | Date;
     content: string;
     attachemnts: TreatmentAttachment[]; // Note: matches frontend typo
+    aiAnalysis?: any;
+    practitionerId?: string | null; // Practitioner who performed the treatment
+    roomId?: string | null; // Room where the treatment took place
+    bodyRegions?: BodyRegion[];
+    vasScore?: number | null; // Pain on the visual analogue scale, 0-10
+    techniques?: string[]; // Techniques applied during the session
+    sessionDuration?: number | null; // Minutes
+    soap?: SoapNote | null;
+    appointmentId?: string; // Visit the treatment was recorded for
+    planId?: string | null; // Treatment plan the session counts towards
+    templateId?: string; // Template the content was started from
+    amendments?: TreatmentAmendment[]; // Additions made once the treatment is locked
+    revisions?: TreatmentRevision[]; // Every change to the clinical record, oldest first
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+export type BodyRegion =
+    | 'head'
+    | 'temporomandibular'
+    | 'cervical-spine'
+    | 'thoracic-spine'
+    | 'lumbar-spine'
+    | 'pelvis'
+    | 'shoulder'
+    | 'elbow'
+    | 'wrist-hand'
+    | 'hip'
+    | 'knee'
+    | 'ankle-foot'
+    | 'chest'
+    | 'abdomen'
+    | 'other';
+
+export interface SoapNote {
+    subjective: string;
+    objective: string;
+    assessment: string;
+    plan: string;
+}
+
+export type TreatmentClinicalFields = Pick<Treatment, 'bodyRegions' | 'vasScore' | 'techniques' | 'sessionDuration' | 'soap'>;
+
+export interface TreatmentAmendment {
+    content: string;
+    reason: string;
+    amendedBy?: string;
+    amendedAt: Date;
+}
+
+/**
+ * Clinical fields of a treatment as they stood at one revision
+ */
+export interface TreatmentSnapshot {
+    patientId: number;
+    date: string | Date;
+    content: string;
+    attachemnts: TreatmentAttachment[];
+    practitionerId: string | null;
+    roomId: string | null;
+    bodyRegions: BodyRegion[];
+    vasScore: number | null;
+    techniques: string[];
+    sessionDuration: number | null;
+    soap: SoapNote | null;
+    amendments: TreatmentAmendment[];
+}
+
+export type TreatmentRevisionField = keyof TreatmentSnapshot;
+
+export interface TreatmentRevision {
+    revision: number; // 1 is the treatment as originally recorded
+    kind: 'original' | 'edit' | 'amendment';
+    changedAt: Date;
+    changedBy?: string;
+    reason?: string;
+    changedFields: TreatmentRevisionField[];
+    previous: Partial<TreatmentSnapshot>; // Values of the changed fields before the change
+    snapshot: TreatmentSnapshot; // Values after the change
+}
+
 import { ObjectId } from 'mongodb';
 
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'no-show' | 'completed';
+
 export interface Appointment {
     _id?: ObjectId | string;
     patientId: number;
     date: Date;
+    duration?: number; // Length in minutes (older appointments use the default duration)
+    endDate?: Date; // date + duration, stored for range queries
+    status?: AppointmentStatus; // Missing on older appointments, which count as scheduled
+    confirmedAt?: Date;
+    cancelledAt?: Date;
+    cancellationReason?: string;
+    noShowAt?: Date;
+    completedAt?: Date;
+    treatmentId?: number; // Treatment recorded when the visit was completed
+    planId?: string | null; // Treatment plan the visit is booked under
+    practitionerId?: string | null; // Assigned practitioner
+    roomId?: string | null; // Assigned room
+    seriesId?: string; // Recurring series this appointment is an occurrence of
+    originalDate?: Date; // Occurrence start as generated by the series rule (RECURRENCE-ID)
+    sourceUid?: string; // UID of the calendar event this appointment was imported from
+    reminders?: ReminderDelivery[]; // Every reminder delivery attempt
+    reminderClaims?: string[]; // "<offset>:<channel>" reminders already handled, prevents double sending
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+export type NotificationChannelName = 'email' | 'sms';
+
+export interface ReminderDelivery {
+    offset: number; // Minutes before the appointment
+    channel: NotificationChannelName;
+    status: 'sent' | 'failed' | 'skipped';
+    attemptedAt: Date;
+    recipient?: string;
+    providerMessageId?: string;
+    error?: string; // Failure or skip reason
+}
+
+export interface AppointmentSeries {
+    _id?: ObjectId | string;
+    patientId: number;
+    dtstart: Date; // Start of the first occurrence
+    duration: number; // Minutes
+    practitionerId?: string | null;
+    roomId?: string | null;
+    rrule: string; // RFC 5545 recurrence rule (supported subset)
+    exdates: Date[]; // Excluded occurrence starts
+    endsAt: Date | null; // Start of the last possible occurrence, null for open-ended series
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface Practitioner {
+    _id?: ObjectId | string;
+    name: string;
+    surname: string;
+    email?: string;
+    phoneNumber?: string;
+    specialty?: string;
+    active: boolean; // Inactive practitioners stay on past records but cannot be assigned
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface Room {
+    _id?: ObjectId | string;
+    name: string;
+    description?: string;
+    active: boolean; // Inactive rooms stay on past records but cannot be assigned
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface TimeRange {
+    start: string; // HH:MM
+    end: string; // HH:MM
+}
+
+export interface DaySchedule {
+    open: string; // HH:MM
+    close: string; // HH:MM
+    breaks: TimeRange[];
+}
+
+export interface WorkingHours {
+    _id: string; // Always 'default', the clinic has a single schedule
+    weekly: (DaySchedule | null)[]; // Indexed by weekday, 0 = Sunday; null on closed days
+    observeNationalHolidays: boolean; // Close on Italian national holidays
+    slotInterval: number; // Minutes between the start times offered by the slot finder
+    updatedAt?: Date;
+}
+
+export interface ClosurePeriod {
+    _id?: ObjectId | string;
+    startDate: string; // YYYY-MM-DD
+    endDate: string; // YYYY-MM-DD, inclusive
+    reason?: string;
+    createdAt?: Date;
+}
+
+export type CalendarFeedScope = 'clinic' | 'patient' | 'practitioner';
+
+export interface CalendarFeed {
+    _id?: ObjectId | string;
+    scope: CalendarFeedScope;
+    patientId?: number; // Set for patient feeds
+    practitionerId?: string; // Set for practitioner feeds
+    label?: string;
+    tokenHash: string; // SHA-256 of the access token; the token itself is only returned on creation
+    createdAt: Date;
+    lastAccessedAt?: Date;
+    revokedAt?: Date;
+}
+
+export type WaitlistEntryStatus = 'waiting' | 'offered' | 'booked' | 'cancelled';
+
+export interface WaitlistEntry {
+    _id?: ObjectId | string;
+    patientId: number;
+    duration: number; // Minutes needed
+    practitionerId?: string | null; // Only slots with this practitioner are offered
+    preferredDays?: number[]; // Weekdays, 0 = Sunday; any day when empty
+    preferredTimes?: TimeRange[]; // Times of day the appointment must fit in; any time when empty
+    earliestDate?: string; // YYYY-MM-DD
+    latestDate?: string; // YYYY-MM-DD
+    priority: number; // Higher priorities are offered slots first
+    notes?: string;
+    status: WaitlistEntryStatus;
+    appointmentId?: string; // Appointment booked by accepting an offer
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+
+export interface WaitlistOffer {
+    _id?: ObjectId | string;
+    entryId: string;
+    patientId: number;
+    sourceAppointmentId: string; // Cancelled or deleted appointment that freed the slot
+    date: Date;
+    duration: number; // Minutes booked for the waitlisted patient
+    slotDuration: number; // Minutes freed by the source appointment
+    practitionerId?: string | null;
+    roomId?: string | null;
+    status: WaitlistOfferStatus;
+    expiresAt: Date;
+    respondedAt?: Date;
+    appointmentId?: string; // Set once accepted
+    notifiedVia?: NotificationChannelName[]; // Channels the offer reached the patient on
+    createdAt: Date;
+}
+
+export interface TreatmentTemplate {
+    _id?: ObjectId | string;
+    name: string;
+    category?: string; // e.g. first evaluation, re-evaluation, discharge
+    content: string; // Text with {{placeholders}} filled in from the patient record
+    active: boolean; // Inactive templates are kept but not offered
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type TreatmentPlanStatus = 'active' | 'completed' | 'cancelled';
+
+export type TreatmentPlanResult = 'resolved' | 'improved' | 'unchanged' | 'worsened' | 'discontinued';
+
+export interface TreatmentPlanOutcome {
+    result: TreatmentPlanResult;
+    notes?: string;
+    sessionsUsed: number; // Sessions recorded on the plan when it was closed
+    closedBy?: string;
+}
+
+export interface TreatmentPlan {
+    _id?: ObjectId | string;
+    patientId: number;
+    goal: string; // Problem the cycle addresses and what it aims for
+    prescribedSessions: number; // Sessions in the package
+    startDate: string; // YYYY-MM-DD
+    endDate?: string | null; // YYYY-MM-DD, expected end of the cycle
+    practitionerId?: string | null;
+    notes?: string;
+    status: TreatmentPlanStatus;
+    closedAt?: Date;
+    outcome?: TreatmentPlanOutcome; // Set when the plan is closed
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type ConsentType = 'privacy' | 'treatment' | 'ai-processing';
+
+export interface ConsentTemplate {
+    _id?: ObjectId | string;
+    type: ConsentType;
+    version: number;
+    title: string;
+    content: string;
+    createdAt?: Date;
+}
+
+export interface ConsentRecord {
+    _id?: ObjectId | string;
+    patientId: number;
+    type: ConsentType;
+    version: number; // Version of the consent template that was accepted
+    grantedAt: Date;
+    revokedAt?: Date;
+    revocationReason?: string;
+    document?: TreatmentAttachment; // Signed consent form
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface AiSummary {
+    _id?: ObjectId | string;
+    patientId: number;
+    summary: string;
+    model: string;
+    treatmentsCount: number;
+    appointmentsCount: number;
+    generatedAt: Date;
+}
+
+export interface Counter {
+    _id: string; // Name of the sequence, e.g. 'patients'
+    seq: number; // Last allocated value
+}
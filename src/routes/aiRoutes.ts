@@ -3,6 +3,8 @@ import { OllamaService } from '../services/ollamaService';
 import { PatientService } from '../services/patientService';
 import { TreatmentService } from '../services/treatmentService';
 import { AppointmentService } from '../services/appointmentService';
+import { AiSummaryService } from '../services/aiSummaryService';
+import { ConsentService } from '../services/consentService';
 import { createApiResponse } from '../types/api';
 import { HTTPError } from '../utils/errors';
 
@@ -16,6 +18,10 @@ aiRoutes.get('/patients/:id/summary', async (c) => {
     const patientId = c.req.param('id');
 
     try {
+        // Only process patients who consented to AI processing
+        const patient = await PatientService.getPatientById(patientId);
+        await ConsentService.assertConsent(patient.id, 'ai-processing');
+
         // Check if Ollama is available
         const isAvailable = await OllamaService.checkAvailability();
         if (!isAvailable) {
@@ -26,9 +32,6 @@ aiRoutes.get('/patients/:id/summary', async (c) => {
             );
         }
 
-        // Fetch patient data
-        const patient = await PatientService.getPatientById(patientId);
-
         // Fetch all treatments for this patient
         const treatments = await TreatmentService.getAllTreatments({
             patientId: patientId,
@@ -46,13 +49,23 @@ aiRoutes.get('/patients/:id/summary', async (c) => {
             appointments
         );
 
+        // Keep the generated summary so it is part of the patient's record
+        const stored = await AiSummaryService.saveSummary({
+            patientId: patient.id,
+            summary,
+            model: process.env.OLLAMA_MODEL || 'gemma3:1b',
+            treatmentsCount: treatments.length,
+            appointmentsCount: appointments.length,
+            generatedAt: new Date(),
+        });
+
         return c.json(
             createApiResponse(
                 {
                     patientId: patient.id,
                     patientName: `${patient.name} ${patient.surname}`,
                     summary,
-                    generatedAt: new Date().toISOString(),
+                    generatedAt: stored.generatedAt.toISOString(),
                     metadata: {
                         treatmentsCount: treatments.length,
                         appointmentsCount: appointments.length,
@@ -1,7 +1,14 @@
 import { Hono } from 'hono';
 import { AppointmentService } from '../services/appointmentService';
+import { AppointmentSeriesService } from '../services/appointmentSeriesService';
+import { ScheduleService } from '../services/scheduleService';
+import { AppointmentImportService } from '../services/appointmentImportService';
 import { createApiResponse } from '../types/api';
-import { AppointmentQueryParams } from '../types/appointment';
+import { AppointmentQueryParams, CompleteAppointmentRequest } from '../types/appointment';
+import { SlotQueryParams } from '../types/schedule';
+import { AppointmentImportOptions } from '../types/appointmentImport';
+import { HTTPError } from '../utils/errors';
+import { readClinicalFormFields } from '../utils/clinicalFields';
 
 const appointmentRoutes = new Hono();
 
@@ -11,13 +18,112 @@ appointmentRoutes.get('/', async (c) => {
         patientId: c.req.query('patientId'),
         date: c.req.query('date'),
         startDate: c.req.query('startDate'),
-        endDate: c.req.query('endDate')
+        endDate: c.req.query('endDate'),
+        status: c.req.query('status'),
+        seriesId: c.req.query('seriesId'),
+        practitionerId: c.req.query('practitionerId'),
+        roomId: c.req.query('roomId'),
+        planId: c.req.query('planId')
     };
 
     const appointments = await AppointmentService.getAllAppointments(params);
     return c.json(createApiResponse(appointments));
 });
 
+// GET /appointments/slots?date=&duration= - Find free slots on a day (optionally for a practitioner or room)
+appointmentRoutes.get('/slots', async (c) => {
+    const params: SlotQueryParams = {
+        date: c.req.query('date'),
+        duration: c.req.query('duration'),
+        practitionerId: c.req.query('practitionerId'),
+        roomId: c.req.query('roomId')
+    };
+
+    const slots = await ScheduleService.findFreeSlots(params);
+    return c.json(createApiResponse(slots));
+});
+
+// POST /appointments/import?dryRun=true - Import appointments from an .ics file (multipart "file" or text/calendar body)
+appointmentRoutes.post('/import', async (c) => {
+    const contentType = c.req.header('content-type') || '';
+    const isEnabled = (value: string | undefined) => value === 'true' || value === '1';
+
+    let content: string;
+    const options: AppointmentImportOptions = {
+        dryRun: isEnabled(c.req.query('dryRun')),
+        allowOverlap: isEnabled(c.req.query('allowOverlap')),
+        allowOutsideHours: isEnabled(c.req.query('allowOutsideHours'))
+    };
+
+    if (contentType.includes('multipart/form-data')) {
+        const formData = await c.req.formData();
+        const file = formData.get('file');
+        if (!(file instanceof File)) {
+            throw new HTTPError('Missing .ics file in field "file"', 400, 'Validation Error');
+        }
+        content = await file.text();
+
+        for (const key of ['dryRun', 'allowOverlap', 'allowOutsideHours'] as const) {
+            const value = formData.get(key)?.toString();
+            if (value !== undefined) options[key] = isEnabled(value);
+        }
+    } else {
+        content = await c.req.text();
+    }
+
+    const report = await AppointmentImportService.importCalendar(content, options);
+
+    return c.json(createApiResponse(report, {
+        message: report.dryRun ? 'Import preview generated' : 'Appointments imported successfully',
+        description: `${report.matched.length} of ${report.totalEvents} events matched a patient, ${report.created} appointments created`,
+        context: 'appointment-import'
+    }), report.created > 0 ? 201 : 200);
+});
+
+// GET /appointments/series/:id - Get a recurring series with its occurrences
+appointmentRoutes.get('/series/:id', async (c) => {
+    const id = c.req.param('id');
+    const series = await AppointmentSeriesService.getSeriesById(id);
+    return c.json(createApiResponse(series));
+});
+
+// POST /appointments/series - Create a recurring series from an RRULE
+appointmentRoutes.post('/series', async (c) => {
+    const body = await c.req.json();
+    const series = await AppointmentSeriesService.createSeries(body);
+
+    return c.json(createApiResponse(series, {
+        message: 'Appointment series created successfully',
+        description: `${series.occurrences.length} occurrences have been scheduled`,
+        context: 'appointment-series-creation'
+    }), 201);
+});
+
+// PUT /appointments/series/:id - Edit one occurrence, this and following, or all occurrences
+appointmentRoutes.put('/series/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const series = await AppointmentSeriesService.updateSeries(id, body);
+
+    return c.json(createApiResponse(series, {
+        message: 'Appointment series updated successfully',
+        description: `Changes applied to ${body.scope === 'this' ? 'one occurrence' : body.scope === 'all' ? 'the whole series' : 'this and following occurrences'}`,
+        context: 'appointment-series-update'
+    }));
+});
+
+// DELETE /appointments/series/:id?scope=this|following|all&occurrenceDate= - Delete occurrences of a series
+appointmentRoutes.delete('/series/:id', async (c) => {
+    const id = c.req.param('id');
+    await AppointmentSeriesService.deleteSeries(id, c.req.query('scope'), c.req.query('occurrenceDate'));
+
+    return c.json(createApiResponse(null, {
+        message: 'Appointment series deleted successfully',
+        description: 'Upcoming occurrences have been removed; past history is kept',
+        context: 'appointment-series-deletion'
+    }));
+});
+
 // GET /appointments/:id - Get appointment by ID
 appointmentRoutes.get('/:id', async (c) => {
     const id = c.req.param('id');
@@ -28,6 +134,8 @@ appointmentRoutes.get('/:id', async (c) => {
 // POST /appointments - Create a new appointment
 appointmentRoutes.post('/', async (c) => {
     const body = await c.req.json();
+    // Only the calendar import records which event an appointment came from
+    delete body.sourceUid;
     const appointment = await AppointmentService.createAppointment(body);
     
     return c.json(createApiResponse(appointment, {
@@ -50,6 +158,80 @@ appointmentRoutes.put('/:id', async (c) => {
     }));
 });
 
+// POST /appointments/:id/confirm - Confirm an appointment
+appointmentRoutes.post('/:id/confirm', async (c) => {
+    const id = c.req.param('id');
+    const appointment = await AppointmentService.confirmAppointment(id);
+
+    return c.json(createApiResponse(appointment, {
+        message: 'Appointment confirmed successfully',
+        description: 'The appointment has been confirmed',
+        context: 'appointment-confirmation'
+    }));
+});
+
+// POST /appointments/:id/cancel - Cancel an appointment with an optional reason
+appointmentRoutes.post('/:id/cancel', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const appointment = await AppointmentService.cancelAppointment(id, body);
+
+    return c.json(createApiResponse(appointment, {
+        message: 'Appointment cancelled successfully',
+        description: 'The appointment has been cancelled and its slot offered to the waitlist',
+        context: 'appointment-cancellation'
+    }));
+});
+
+// POST /appointments/:id/no-show - Mark an appointment as missed
+appointmentRoutes.post('/:id/no-show', async (c) => {
+    const id = c.req.param('id');
+    const appointment = await AppointmentService.markNoShow(id);
+
+    return c.json(createApiResponse(appointment, {
+        message: 'Appointment marked as no-show',
+        description: 'The patient did not attend the appointment',
+        context: 'appointment-no-show'
+    }));
+});
+
+// POST /appointments/:id/complete - Mark an appointment as completed and record its treatment
+// (JSON, or multipart/form-data with content, practitionerId, roomId and files)
+appointmentRoutes.post('/:id/complete', async (c) => {
+    const id = c.req.param('id');
+    const contentType = c.req.header('content-type') || '';
+
+    let body: CompleteAppointmentRequest;
+    const files: File[] = [];
+
+    if (contentType.includes('multipart/form-data')) {
+        const formData = await c.req.formData();
+        const field = (name: string) => formData.get(name)?.toString();
+
+        body = {
+            content: field('content'),
+            practitionerId: field('practitionerId'),
+            roomId: field('roomId'),
+            ...readClinicalFormFields(formData)
+        } as CompleteAppointmentRequest;
+        for (const file of formData.getAll('files')) {
+            if (file instanceof File) {
+                files.push(file);
+            }
+        }
+    } else {
+        body = await c.req.json().catch(() => ({}));
+    }
+
+    const completed = await AppointmentService.completeAppointment(id, body, files);
+
+    return c.json(createApiResponse(completed, {
+        message: 'Appointment completed successfully',
+        description: `The appointment has been marked as completed and recorded as treatment ${completed.treatment.id}`,
+        context: 'appointment-completion'
+    }), 201);
+});
+
 // DELETE /appointments/:id - Delete an appointment
 appointmentRoutes.delete('/:id', async (c) => {
     const id = c.req.param('id');
@@ -0,0 +1,50 @@
+import { Hono } from 'hono';
+import { CalendarService } from '../services/calendarService';
+import { createApiResponse } from '../types/api';
+
+const calendarRoutes = new Hono();
+
+// GET /calendar/feed.ics?token= - iCalendar feed (token in the query string or as a Bearer token)
+calendarRoutes.get('/feed.ics', async (c) => {
+    const authorization = c.req.header('authorization') || '';
+    const token = c.req.query('token') || authorization.replace(/^Bearer\s+/i, '') || undefined;
+    const { fileName, content } = await CalendarService.renderFeed(token);
+
+    return c.body(content, 200, {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+    });
+});
+
+// GET /calendar/feeds - Get all calendar feeds
+calendarRoutes.get('/feeds', async (c) => {
+    const feeds = await CalendarService.getFeeds();
+    return c.json(createApiResponse(feeds));
+});
+
+// POST /calendar/feeds - Create a clinic, patient or practitioner feed
+calendarRoutes.post('/feeds', async (c) => {
+    const body = await c.req.json();
+    const created = await CalendarService.createFeed(body);
+
+    return c.json(createApiResponse(created, {
+        message: 'Calendar feed created successfully',
+        description: 'Store the token now: it cannot be retrieved again',
+        context: 'calendar-feed-creation'
+    }), 201);
+});
+
+// POST /calendar/feeds/:id/revoke - Revoke a calendar feed
+calendarRoutes.post('/feeds/:id/revoke', async (c) => {
+    const id = c.req.param('id');
+    const feed = await CalendarService.revokeFeed(id);
+
+    return c.json(createApiResponse(feed, {
+        message: 'Calendar feed revoked successfully',
+        description: 'Subscribed calendars no longer receive updates',
+        context: 'calendar-feed-revocation'
+    }));
+});
+
+export default calendarRoutes;
@@ -0,0 +1,95 @@
+import { Hono } from 'hono';
+import { ConsentService } from '../services/consentService';
+import { createApiResponse } from '../types/api';
+import { GrantConsentRequest } from '../types/consent';
+
+const consentRoutes = new Hono();
+
+// GET /consents/templates - Get consent templates (optionally by type)
+consentRoutes.get('/templates', async (c) => {
+    const templates = await ConsentService.getTemplates(c.req.query('type'));
+    return c.json(createApiResponse(templates));
+});
+
+// GET /consents/templates/:id - Get consent template by ID
+consentRoutes.get('/templates/:id', async (c) => {
+    const id = c.req.param('id');
+    const template = await ConsentService.getTemplateById(id);
+    return c.json(createApiResponse(template));
+});
+
+// POST /consents/templates - Publish a new consent template version
+consentRoutes.post('/templates', async (c) => {
+    const body = await c.req.json();
+    const template = await ConsentService.createTemplate(body);
+
+    return c.json(createApiResponse(template, {
+        message: 'Consent template created successfully',
+        description: `Version ${template.version} of the ${template.type} consent has been published`,
+        context: 'consent-template-creation'
+    }), 201);
+});
+
+// GET /consents/patients/:patientId - Get the current consent state of a patient
+consentRoutes.get('/patients/:patientId', async (c) => {
+    const patientId = c.req.param('patientId');
+    const state = await ConsentService.getPatientConsentState(patientId);
+    return c.json(createApiResponse(state));
+});
+
+// GET /consents/patients/:patientId/history - Get all consent records of a patient
+consentRoutes.get('/patients/:patientId/history', async (c) => {
+    const patientId = c.req.param('patientId');
+    const history = await ConsentService.getPatientConsentHistory(patientId);
+    return c.json(createApiResponse(history));
+});
+
+// POST /consents/patients/:patientId - Grant a consent (JSON, or multipart with a signed document)
+consentRoutes.post('/patients/:patientId', async (c) => {
+    const patientId = c.req.param('patientId');
+    const contentType = c.req.header('content-type') || '';
+
+    let body: GrantConsentRequest;
+    let document: File | undefined;
+
+    if (contentType.includes('multipart/form-data')) {
+        const formData = await c.req.formData();
+        const version = formData.get('version')?.toString();
+
+        body = {
+            type: formData.get('type')?.toString() as GrantConsentRequest['type'],
+            version: version ? Number(version) : undefined,
+            grantedAt: formData.get('grantedAt')?.toString()
+        };
+
+        const file = formData.get('document');
+        if (file instanceof File) {
+            document = file;
+        }
+    } else {
+        body = await c.req.json();
+    }
+
+    const consent = await ConsentService.grantConsent(patientId, body, document);
+
+    return c.json(createApiResponse(consent, {
+        message: 'Consent granted successfully',
+        description: `The patient's ${consent.type} consent has been recorded`,
+        context: 'consent-grant'
+    }), 201);
+});
+
+// POST /consents/:id/revoke - Revoke a consent
+consentRoutes.post('/:id/revoke', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const consent = await ConsentService.revokeConsent(id, body);
+
+    return c.json(createApiResponse(consent, {
+        message: 'Consent revoked successfully',
+        description: `The patient's ${consent.type} consent has been revoked`,
+        context: 'consent-revocation'
+    }));
+});
+
+export default consentRoutes;
@@ -1,14 +1,46 @@
 import { Hono } from 'hono';
 import { PatientService } from '../services/patientService';
+import { ExportService } from '../services/exportService';
+import { AnonymisationService } from '../services/anonymisationService';
+import { TimelineService } from '../services/timelineService';
+import { TreatmentService } from '../services/treatmentService';
 import { createApiResponse } from '../types/api';
+import { PatientQueryParams, DuplicateQueryParams, UpdateAnamnesisRequest, UpdateReminderPreferencesRequest } from '../types/patient';
+import { TimelineQueryParams } from '../types/timeline';
+import { VasTrendQueryParams } from '../types/treatment';
 import { validateRequiredFields } from '../utils/validation';
 
 const patientRoutes = new Hono();
 
-// GET /patients - Get all patients
+// GET /patients - Get patients (search, sort and paginate)
 patientRoutes.get('/', async (c) => {
-    const patients = await PatientService.getAllPatients();
-    return c.json(createApiResponse(patients));
+    const params: PatientQueryParams = {
+        q: c.req.query('q'),
+        sortBy: c.req.query('sortBy'),
+        sortOrder: c.req.query('sortOrder'),
+        page: c.req.query('page'),
+        limit: c.req.query('limit'),
+        cursor: c.req.query('cursor')
+    };
+
+    const { items, pagination } = await PatientService.getAllPatients(params);
+    return c.json(createApiResponse(items, {
+        message: 'Patients retrieved successfully',
+        description: `${items.length} of ${pagination.total} patients`,
+        context: 'patient-listing',
+        pagination
+    }));
+});
+
+// GET /patients/duplicates - Get likely duplicate patient pairs ranked by similarity
+patientRoutes.get('/duplicates', async (c) => {
+    const params: DuplicateQueryParams = {
+        threshold: c.req.query('threshold'),
+        limit: c.req.query('limit')
+    };
+
+    const duplicates = await PatientService.findDuplicates(params);
+    return c.json(createApiResponse(duplicates));
 });
 
 // GET /patients/:id - Get patient by ID
@@ -22,7 +54,7 @@ patientRoutes.get('/:id', async (c) => {
 patientRoutes.post('/', async (c) => {
     const body = await c.req.json();
     
-    validateRequiredFields(body, ['id', 'name', 'surname', 'email', 'phoneNumber', 'fiscalCode']);
+    validateRequiredFields(body, ['name', 'surname', 'email', 'phoneNumber', 'fiscalCode']);
     
     const patient = await PatientService.createPatient(body);
     
@@ -46,16 +78,157 @@ patientRoutes.put('/:id', async (c) => {
     }));
 });
 
-// DELETE /patients/:id - Delete a patient
+// GET /patients/:id/timeline - Get a chronological stream of the patient's events
+patientRoutes.get('/:id/timeline', async (c) => {
+    const id = c.req.param('id');
+    const params: TimelineQueryParams = {
+        types: c.req.query('types'),
+        startDate: c.req.query('startDate'),
+        endDate: c.req.query('endDate'),
+        order: c.req.query('order'),
+        page: c.req.query('page'),
+        limit: c.req.query('limit')
+    };
+
+    const { items, pagination } = await TimelineService.getPatientTimeline(id, params);
+    return c.json(createApiResponse(items, {
+        message: 'Timeline retrieved successfully',
+        description: `${items.length} of ${pagination.total} events`,
+        context: 'patient-timeline',
+        pagination
+    }));
+});
+
+// GET /patients/:id/vas-trend - Get the patient's VAS pain scores across treatments, optionally for one body region
+patientRoutes.get('/:id/vas-trend', async (c) => {
+    const id = c.req.param('id');
+    const params: VasTrendQueryParams = {
+        bodyRegion: c.req.query('bodyRegion')
+    };
+
+    const trend = await TreatmentService.getVasTrend(id, params);
+    return c.json(createApiResponse(trend));
+});
+
+// GET /patients/:id/anamnesis - Get the structured anamnesis with its revision history
+patientRoutes.get('/:id/anamnesis', async (c) => {
+    const id = c.req.param('id');
+    const anamnesis = await PatientService.getAnamnesis(id);
+    return c.json(createApiResponse(anamnesis));
+});
+
+// PUT /patients/:id/anamnesis - Update anamnesis sections, recording a new revision
+patientRoutes.put('/:id/anamnesis', async (c) => {
+    const id = c.req.param('id');
+    const { anamnesi, ...sections }: UpdateAnamnesisRequest = await c.req.json();
+
+    await PatientService.updatePatient(id, { anamnesis: sections, anamnesi });
+    const anamnesis = await PatientService.getAnamnesis(id);
+
+    return c.json(createApiResponse(anamnesis, {
+        message: 'Anamnesis updated successfully',
+        description: 'A new anamnesis revision has been recorded',
+        context: 'anamnesis-update'
+    }));
+});
+
+// GET /patients/:id/reminder-preferences - Get the reminder channels the patient opted out of
+patientRoutes.get('/:id/reminder-preferences', async (c) => {
+    const id = c.req.param('id');
+    const preferences = await PatientService.getReminderPreferences(id);
+    return c.json(createApiResponse(preferences));
+});
+
+// PUT /patients/:id/reminder-preferences - Opt the patient out of reminder channels
+patientRoutes.put('/:id/reminder-preferences', async (c) => {
+    const id = c.req.param('id');
+    const body: UpdateReminderPreferencesRequest = await c.req.json();
+    validateRequiredFields(body, ['optOut']);
+
+    const preferences = await PatientService.updateReminderPreferences(id, body.optOut);
+
+    return c.json(createApiResponse(preferences, {
+        message: 'Reminder preferences updated successfully',
+        description: preferences.optOut.length > 0
+            ? `No reminders will be sent by ${preferences.optOut.join(' or ')}`
+            : 'Reminders will be sent on every channel',
+        context: 'reminder-preferences-update'
+    }));
+});
+
+// DELETE /patients/:id - Soft-delete a patient
 patientRoutes.delete('/:id', async (c) => {
     const id = c.req.param('id');
     await PatientService.deletePatient(id);
     
     return c.json(createApiResponse(null, {
         message: 'Patient deleted successfully',
-        description: 'Patient has been removed from the system',
+        description: 'Patient has been moved to the trash and can be restored',
         context: 'patient-deletion'
     }));
 });
 
+// GET /patients/:id/export - Download a ZIP with the complete patient record (subject access request)
+patientRoutes.get('/:id/export', async (c) => {
+    const id = c.req.param('id');
+    const { fileName, content } = await ExportService.exportPatient(id);
+
+    return c.body(new Uint8Array(content), 200, {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+});
+
+// POST /patients/:id/anonymise - Irreversibly anonymise a patient (right to erasure)
+patientRoutes.post('/:id/anonymise', async (c) => {
+    const id = c.req.param('id');
+    const report = await AnonymisationService.anonymisePatient(id);
+
+    return c.json(createApiResponse(report, {
+        message: 'Patient anonymised successfully',
+        description: 'Identity has been replaced with pseudonyms while clinical history was kept',
+        context: 'patient-anonymisation'
+    }));
+});
+
+// POST /patients/:id/restore - Restore a soft-deleted patient
+patientRoutes.post('/:id/restore', async (c) => {
+    const id = c.req.param('id');
+    const patient = await PatientService.restorePatient(id);
+
+    return c.json(createApiResponse(patient, {
+        message: 'Patient restored successfully',
+        description: 'Patient has been restored from the trash',
+        context: 'patient-restore'
+    }));
+});
+
+// POST /patients/:id/merge - Merge a duplicate patient into this patient
+patientRoutes.post('/:id/merge', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+
+    validateRequiredFields(body, ['duplicateId']);
+
+    const result = await PatientService.mergePatients(id, String(body.duplicateId));
+
+    return c.json(createApiResponse(result, {
+        message: 'Patients merged successfully',
+        description: 'Treatments and appointments have been moved to the surviving patient',
+        context: 'patient-merge'
+    }));
+});
+
+// DELETE /patients/:id/purge - Permanently delete a soft-deleted patient and all related data
+patientRoutes.delete('/:id/purge', async (c) => {
+    const id = c.req.param('id');
+    const report = await PatientService.purgePatient(id);
+
+    return c.json(createApiResponse(report, {
+        message: 'Patient purged successfully',
+        description: 'Patient, treatments, appointments, recurring series, waitlist entries, treatment plans, AI summaries, consents and attachment files have been permanently removed',
+        context: 'patient-purge'
+    }));
+});
+
 export default patientRoutes;
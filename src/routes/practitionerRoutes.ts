@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import { PractitionerService } from '../services/practitionerService';
+import { createApiResponse } from '../types/api';
+import { PractitionerQueryParams } from '../types/practitioner';
+
+const practitionerRoutes = new Hono();
+
+// GET /practitioners - Get all practitioners
+practitionerRoutes.get('/', async (c) => {
+    const params: PractitionerQueryParams = {
+        active: c.req.query('active')
+    };
+
+    const practitioners = await PractitionerService.getAllPractitioners(params);
+    return c.json(createApiResponse(practitioners));
+});
+
+// GET /practitioners/:id - Get practitioner by ID
+practitionerRoutes.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const practitioner = await PractitionerService.getPractitionerById(id);
+    return c.json(createApiResponse(practitioner));
+});
+
+// POST /practitioners - Create a new practitioner
+practitionerRoutes.post('/', async (c) => {
+    const body = await c.req.json();
+    const practitioner = await PractitionerService.createPractitioner(body);
+
+    return c.json(createApiResponse(practitioner, {
+        message: 'Practitioner created successfully',
+        description: 'A new practitioner has been added to the system',
+        context: 'practitioner-creation'
+    }), 201);
+});
+
+// PUT /practitioners/:id - Update a practitioner
+practitionerRoutes.put('/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const practitioner = await PractitionerService.updatePractitioner(id, body);
+
+    return c.json(createApiResponse(practitioner, {
+        message: 'Practitioner updated successfully',
+        description: 'Practitioner information has been updated',
+        context: 'practitioner-update'
+    }));
+});
+
+// DELETE /practitioners/:id - Delete a practitioner without history
+practitionerRoutes.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    await PractitionerService.deletePractitioner(id);
+
+    return c.json(createApiResponse(null, {
+        message: 'Practitioner deleted successfully',
+        description: 'Practitioner has been removed from the system',
+        context: 'practitioner-deletion'
+    }));
+});
+
+export default practitionerRoutes;
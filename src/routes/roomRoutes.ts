@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import { RoomService } from '../services/roomService';
+import { createApiResponse } from '../types/api';
+import { RoomQueryParams } from '../types/room';
+
+const roomRoutes = new Hono();
+
+// GET /rooms - Get all rooms
+roomRoutes.get('/', async (c) => {
+    const params: RoomQueryParams = {
+        active: c.req.query('active')
+    };
+
+    const rooms = await RoomService.getAllRooms(params);
+    return c.json(createApiResponse(rooms));
+});
+
+// GET /rooms/:id - Get room by ID
+roomRoutes.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const room = await RoomService.getRoomById(id);
+    return c.json(createApiResponse(room));
+});
+
+// POST /rooms - Create a new room
+roomRoutes.post('/', async (c) => {
+    const body = await c.req.json();
+    const room = await RoomService.createRoom(body);
+
+    return c.json(createApiResponse(room, {
+        message: 'Room created successfully',
+        description: 'A new room has been added to the system',
+        context: 'room-creation'
+    }), 201);
+});
+
+// PUT /rooms/:id - Update a room
+roomRoutes.put('/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const room = await RoomService.updateRoom(id, body);
+
+    return c.json(createApiResponse(room, {
+        message: 'Room updated successfully',
+        description: 'Room information has been updated',
+        context: 'room-update'
+    }));
+});
+
+// DELETE /rooms/:id - Delete a room without history
+roomRoutes.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    await RoomService.deleteRoom(id);
+
+    return c.json(createApiResponse(null, {
+        message: 'Room deleted successfully',
+        description: 'Room has been removed from the system',
+        context: 'room-deletion'
+    }));
+});
+
+export default roomRoutes;
@@ -0,0 +1,68 @@
+import { Hono } from 'hono';
+import { ScheduleService } from '../services/scheduleService';
+import { createApiResponse } from '../types/api';
+import { ClosureQueryParams } from '../types/schedule';
+
+const scheduleRoutes = new Hono();
+
+// GET /schedule/hours - Get the clinic working hours
+scheduleRoutes.get('/hours', async (c) => {
+    const workingHours = await ScheduleService.getWorkingHours();
+    return c.json(createApiResponse(workingHours));
+});
+
+// PUT /schedule/hours - Update the clinic working hours
+scheduleRoutes.put('/hours', async (c) => {
+    const body = await c.req.json();
+    const workingHours = await ScheduleService.updateWorkingHours(body);
+
+    return c.json(createApiResponse(workingHours, {
+        message: 'Working hours updated successfully',
+        description: 'The clinic opening hours have been updated',
+        context: 'working-hours-update'
+    }));
+});
+
+// GET /schedule/holidays?year= - Get national holidays and closure days of a year
+scheduleRoutes.get('/holidays', async (c) => {
+    const year = Number(c.req.query('year') || new Date().getFullYear());
+    const holidays = await ScheduleService.getHolidays(year);
+    return c.json(createApiResponse(holidays));
+});
+
+// GET /schedule/closures - Get closure periods (optionally overlapping from/to)
+scheduleRoutes.get('/closures', async (c) => {
+    const params: ClosureQueryParams = {
+        from: c.req.query('from'),
+        to: c.req.query('to')
+    };
+
+    const closures = await ScheduleService.getClosures(params);
+    return c.json(createApiResponse(closures));
+});
+
+// POST /schedule/closures - Add a closure period
+scheduleRoutes.post('/closures', async (c) => {
+    const body = await c.req.json();
+    const closure = await ScheduleService.createClosure(body);
+
+    return c.json(createApiResponse(closure, {
+        message: 'Closure created successfully',
+        description: `The clinic is closed from ${closure.startDate} to ${closure.endDate}`,
+        context: 'closure-creation'
+    }), 201);
+});
+
+// DELETE /schedule/closures/:id - Delete a closure period
+scheduleRoutes.delete('/closures/:id', async (c) => {
+    const id = c.req.param('id');
+    await ScheduleService.deleteClosure(id);
+
+    return c.json(createApiResponse(null, {
+        message: 'Closure deleted successfully',
+        description: 'The closure period has been removed',
+        context: 'closure-deletion'
+    }));
+});
+
+export default scheduleRoutes;
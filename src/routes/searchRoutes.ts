@@ -0,0 +1,27 @@
+import { Hono } from 'hono';
+import { SearchService } from '../services/searchService';
+import { createApiResponse } from '../types/api';
+import { SearchQueryParams } from '../types/search';
+
+const searchRoutes = new Hono();
+
+// GET /search?q= - Search treatment notes and anamneses, best matches first
+searchRoutes.get('/', async (c) => {
+    const params: SearchQueryParams = {
+        q: c.req.query('q'),
+        types: c.req.query('types'),
+        patientId: c.req.query('patientId'),
+        page: c.req.query('page'),
+        limit: c.req.query('limit')
+    };
+
+    const { items, pagination } = await SearchService.search(params);
+    return c.json(createApiResponse(items, {
+        message: 'Search completed successfully',
+        description: `${items.length} of ${pagination.total} results`,
+        context: 'search',
+        pagination
+    }));
+});
+
+export default searchRoutes;
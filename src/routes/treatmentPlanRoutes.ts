@@ -0,0 +1,83 @@
+import { Hono } from 'hono';
+import { TreatmentPlanService } from '../services/treatmentPlanService';
+import { createApiResponse } from '../types/api';
+import { TreatmentPlanQueryParams } from '../types/treatmentPlan';
+
+const treatmentPlanRoutes = new Hono();
+
+// GET /treatment-plans - Get treatment plans with their session usage
+treatmentPlanRoutes.get('/', async (c) => {
+    const params: TreatmentPlanQueryParams = {
+        patientId: c.req.query('patientId'),
+        status: c.req.query('status')
+    };
+
+    const plans = await TreatmentPlanService.getPlans(params);
+    return c.json(createApiResponse(plans));
+});
+
+// POST /treatment-plans - Create a treatment plan for a patient
+treatmentPlanRoutes.post('/', async (c) => {
+    const body = await c.req.json();
+    const plan = await TreatmentPlanService.createPlan(body);
+
+    return c.json(createApiResponse(plan, {
+        message: 'Treatment plan created successfully',
+        description: `${plan.prescribedSessions} sessions have been prescribed`,
+        context: 'treatment-plan-creation'
+    }), 201);
+});
+
+// GET /treatment-plans/:id - Get a treatment plan with sessions used and remaining
+treatmentPlanRoutes.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const plan = await TreatmentPlanService.getPlanById(id);
+    return c.json(createApiResponse(plan));
+});
+
+// GET /treatment-plans/:id/sessions - Get the treatments and appointments linked to a plan
+treatmentPlanRoutes.get('/:id/sessions', async (c) => {
+    const id = c.req.param('id');
+    const sessions = await TreatmentPlanService.getSessions(id);
+    return c.json(createApiResponse(sessions));
+});
+
+// PUT /treatment-plans/:id - Update an active treatment plan
+treatmentPlanRoutes.put('/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const plan = await TreatmentPlanService.updatePlan(id, body);
+
+    return c.json(createApiResponse(plan, {
+        message: 'Treatment plan updated successfully',
+        description: `${plan.sessions.used} of ${plan.sessions.prescribed} sessions used`,
+        context: 'treatment-plan-update'
+    }));
+});
+
+// POST /treatment-plans/:id/close - Close a treatment plan, recording its outcome
+treatmentPlanRoutes.post('/:id/close', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const plan = await TreatmentPlanService.closePlan(id, body);
+
+    return c.json(createApiResponse(plan, {
+        message: 'Treatment plan closed',
+        description: `The plan has been marked as ${plan.status} after ${plan.sessions.used} sessions`,
+        context: 'treatment-plan-closure'
+    }));
+});
+
+// DELETE /treatment-plans/:id - Delete a treatment plan without recorded sessions
+treatmentPlanRoutes.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    await TreatmentPlanService.deletePlan(id);
+
+    return c.json(createApiResponse(null, {
+        message: 'Treatment plan deleted successfully',
+        description: 'Appointments booked on the plan have been detached from it',
+        context: 'treatment-plan-deletion'
+    }));
+});
+
+export default treatmentPlanRoutes;
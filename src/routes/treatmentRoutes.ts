@@ -5,16 +5,23 @@ import { TreatmentQueryParams } from '../types/treatment';
 import { validateRequiredFields, validateContentType } from '../utils/validation';
 import { HTTPError } from '../utils/errors';
 import { initAttachmentsDir } from '../utils/fileHandler';
+import { readClinicalFormFields } from '../utils/clinicalFields';
 
 const treatmentRoutes = new Hono();
 
 // Initialize attachments directory on module load
 initAttachmentsDir().catch(console.error);
 
-// GET /treatments - Get all treatments
+// GET /treatments - Get all treatments, optionally filtered on structured clinical fields
 treatmentRoutes.get('/', async (c) => {
     const params: TreatmentQueryParams = {
-        patientId: c.req.query('patientId')
+        patientId: c.req.query('patientId'),
+        q: c.req.query('q'),
+        planId: c.req.query('planId'),
+        bodyRegion: c.req.query('bodyRegion'),
+        technique: c.req.query('technique'),
+        vasMin: c.req.query('vasMin'),
+        vasMax: c.req.query('vasMax')
     };
 
     const treatments = await TreatmentService.getAllTreatments(params);
@@ -28,6 +35,33 @@ treatmentRoutes.get('/:id', async (c) => {
     return c.json(createApiResponse(treatment));
 });
 
+// GET /treatments/:id/revisions - Get the revision history of a treatment
+treatmentRoutes.get('/:id/revisions', async (c) => {
+    const id = c.req.param('id');
+    const history = await TreatmentService.getRevisions(id);
+    return c.json(createApiResponse(history));
+});
+
+// GET /treatments/:id/revisions/diff?from=&to= - Compare two revisions (default: the latest with the previous one)
+treatmentRoutes.get('/:id/revisions/diff', async (c) => {
+    const id = c.req.param('id');
+    const diff = await TreatmentService.getRevisionDiff(id, c.req.query('from'), c.req.query('to'));
+    return c.json(createApiResponse(diff));
+});
+
+// POST /treatments/:id/amendments - Amend a treatment, also once it is locked
+treatmentRoutes.post('/:id/amendments', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const treatment = await TreatmentService.addAmendment(id, body);
+
+    return c.json(createApiResponse(treatment, {
+        message: 'Amendment added successfully',
+        description: 'The amendment has been appended to the treatment and recorded in its revisions',
+        context: 'treatment-amendment'
+    }), 201);
+});
+
 // POST /treatments/file-submit - Upload files for a treatment
 treatmentRoutes.post('/file-submit', async (c) => {
     const contentType = c.req.header('content-type') || '';
@@ -58,11 +92,13 @@ treatmentRoutes.post('/file-submit', async (c) => {
     }), 201);
 });
 
-// POST /treatments - Create a new treatment (JSON only)
+// POST /treatments - Create a new treatment (JSON only), optionally from a template
 treatmentRoutes.post('/', async (c) => {
     const body = await c.req.json();
+    // Only completing an appointment links a treatment to it
+    delete body.appointmentId;
     
-    validateRequiredFields(body, ['id', 'patientId', 'date', 'content']);
+    validateRequiredFields(body, body.templateId ? ['patientId', 'date'] : ['patientId', 'date', 'content']);
     
     const treatment = await TreatmentService.createTreatment(body);
     
@@ -89,7 +125,13 @@ treatmentRoutes.put('/:id', async (c) => {
             patientId: formData.get('patientId')?.toString(),
             date: formData.get('date')?.toString(),
             content: formData.get('content')?.toString(),
-            attachemnts: formData.get('attachemnts')?.toString()
+            attachemnts: formData.get('attachemnts')?.toString(),
+            practitionerId: formData.get('practitionerId')?.toString(),
+            roomId: formData.get('roomId')?.toString(),
+            reason: formData.get('reason')?.toString(),
+            changedBy: formData.get('changedBy')?.toString(),
+            planId: formData.get('planId')?.toString(),
+            ...readClinicalFormFields(formData)
         };
 
         // Handle new file uploads
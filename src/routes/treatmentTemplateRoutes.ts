@@ -0,0 +1,81 @@
+import { Hono } from 'hono';
+import { TreatmentTemplateService } from '../services/treatmentTemplateService';
+import { createApiResponse } from '../types/api';
+import { TREATMENT_TEMPLATE_PLACEHOLDERS, TreatmentTemplateQueryParams, RenderTreatmentTemplateRequest } from '../types/treatmentTemplate';
+import { validateRequiredFields } from '../utils/validation';
+
+const treatmentTemplateRoutes = new Hono();
+
+// GET /treatment-templates - Get all treatment templates
+treatmentTemplateRoutes.get('/', async (c) => {
+    const params: TreatmentTemplateQueryParams = {
+        category: c.req.query('category'),
+        active: c.req.query('active')
+    };
+
+    const templates = await TreatmentTemplateService.getTemplates(params);
+    return c.json(createApiResponse(templates));
+});
+
+// GET /treatment-templates/placeholders - List the placeholders templates can use
+treatmentTemplateRoutes.get('/placeholders', async (c) => {
+    const placeholders = Object.entries(TREATMENT_TEMPLATE_PLACEHOLDERS)
+        .map(([name, description]) => ({ name, placeholder: `{{${name}}}`, description }));
+    return c.json(createApiResponse(placeholders));
+});
+
+// GET /treatment-templates/:id - Get treatment template by ID
+treatmentTemplateRoutes.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const template = await TreatmentTemplateService.getTemplateById(id);
+    return c.json(createApiResponse(template));
+});
+
+// POST /treatment-templates - Create a new treatment template
+treatmentTemplateRoutes.post('/', async (c) => {
+    const body = await c.req.json();
+    const template = await TreatmentTemplateService.createTemplate(body);
+
+    return c.json(createApiResponse(template, {
+        message: 'Treatment template created successfully',
+        description: 'The template can now be used to start treatment notes',
+        context: 'treatment-template-creation'
+    }), 201);
+});
+
+// POST /treatment-templates/:id/render - Preview a template filled in for a patient
+treatmentTemplateRoutes.post('/:id/render', async (c) => {
+    const id = c.req.param('id');
+    const body: RenderTreatmentTemplateRequest = await c.req.json();
+    validateRequiredFields(body, ['patientId']);
+
+    const rendered = await TreatmentTemplateService.renderTemplate(id, Number(body.patientId), body.date);
+    return c.json(createApiResponse(rendered));
+});
+
+// PUT /treatment-templates/:id - Update a treatment template
+treatmentTemplateRoutes.put('/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const template = await TreatmentTemplateService.updateTemplate(id, body);
+
+    return c.json(createApiResponse(template, {
+        message: 'Treatment template updated successfully',
+        description: 'Treatments already written from this template are unchanged',
+        context: 'treatment-template-update'
+    }));
+});
+
+// DELETE /treatment-templates/:id - Delete a treatment template
+treatmentTemplateRoutes.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    await TreatmentTemplateService.deleteTemplate(id);
+
+    return c.json(createApiResponse(null, {
+        message: 'Treatment template deleted successfully',
+        description: 'Treatment template has been removed from the system',
+        context: 'treatment-template-deletion'
+    }));
+});
+
+export default treatmentTemplateRoutes;
@@ -0,0 +1,100 @@
+import { Hono } from 'hono';
+import { WaitlistService } from '../services/waitlistService';
+import { createApiResponse } from '../types/api';
+import { WaitlistQueryParams, WaitlistOfferQueryParams } from '../types/waitlist';
+
+const waitlistRoutes = new Hono();
+
+// GET /waitlist - Get waitlist entries in priority order
+waitlistRoutes.get('/', async (c) => {
+    const params: WaitlistQueryParams = {
+        status: c.req.query('status'),
+        patientId: c.req.query('patientId'),
+        practitionerId: c.req.query('practitionerId')
+    };
+
+    const entries = await WaitlistService.getEntries(params);
+    return c.json(createApiResponse(entries));
+});
+
+// POST /waitlist - Add a patient to the waitlist
+waitlistRoutes.post('/', async (c) => {
+    const body = await c.req.json();
+    const entry = await WaitlistService.createEntry(body);
+
+    return c.json(createApiResponse(entry, {
+        message: 'Patient added to the waitlist',
+        description: 'The patient will be offered matching slots as they free up',
+        context: 'waitlist-creation'
+    }), 201);
+});
+
+// GET /waitlist/offers - Get slot offers made to waitlisted patients
+waitlistRoutes.get('/offers', async (c) => {
+    const params: WaitlistOfferQueryParams = {
+        status: c.req.query('status'),
+        patientId: c.req.query('patientId'),
+        entryId: c.req.query('entryId')
+    };
+
+    const offers = await WaitlistService.getOffers(params);
+    return c.json(createApiResponse(offers));
+});
+
+// POST /waitlist/offers/:id/accept - Accept an offer, booking the appointment
+waitlistRoutes.post('/offers/:id/accept', async (c) => {
+    const id = c.req.param('id');
+    const accepted = await WaitlistService.acceptOffer(id);
+
+    return c.json(createApiResponse(accepted, {
+        message: 'Offer accepted successfully',
+        description: 'The appointment has been booked and the patient removed from the waitlist',
+        context: 'waitlist-offer-acceptance'
+    }), 201);
+});
+
+// POST /waitlist/offers/:id/decline - Decline an offer, passing the slot to the next patient
+waitlistRoutes.post('/offers/:id/decline', async (c) => {
+    const id = c.req.param('id');
+    const offer = await WaitlistService.declineOffer(id);
+
+    return c.json(createApiResponse(offer, {
+        message: 'Offer declined',
+        description: 'The patient stays on the waitlist and the slot has been offered to the next patient',
+        context: 'waitlist-offer-decline'
+    }));
+});
+
+// GET /waitlist/:id - Get waitlist entry by ID
+waitlistRoutes.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const entry = await WaitlistService.getEntryById(id);
+    return c.json(createApiResponse(entry));
+});
+
+// PUT /waitlist/:id - Update the preferences of a waitlist entry
+waitlistRoutes.put('/:id', async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const entry = await WaitlistService.updateEntry(id, body);
+
+    return c.json(createApiResponse(entry, {
+        message: 'Waitlist entry updated successfully',
+        description: 'The new preferences apply to slots freed from now on',
+        context: 'waitlist-update'
+    }));
+});
+
+// DELETE /waitlist/:id - Take a patient off the waitlist
+waitlistRoutes.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    const entry = await WaitlistService.cancelEntry(id);
+
+    return c.json(createApiResponse(entry, {
+        message: 'Patient removed from the waitlist',
+        description: 'Any pending offer has been withdrawn and passed on',
+        context: 'waitlist-cancellation'
+    }));
+});
+
+export default waitlistRoutes;
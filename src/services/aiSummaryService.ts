@@ -0,0 +1,48 @@
+import { aiSummariesCollection } from '../database';
+import { AiSummary } from '../models';
+import { HTTPError } from '../utils/errors';
+
+/**
+ * Serialized AI summary type for API responses (only id, no _id)
+ */
+export type SerializedAiSummary = Omit<AiSummary, '_id'> & { id: string };
+
+/**
+ * Serialize AI summary for API response (convert _id to id as string, remove _id)
+ */
+function serializeAiSummary(summary: AiSummary): SerializedAiSummary {
+    const { _id, ...rest } = summary;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Service for storing and retrieving generated AI summaries
+ */
+export class AiSummaryService {
+    /**
+     * Store a generated summary
+     */
+    static async saveSummary(data: Omit<AiSummary, '_id'>): Promise<SerializedAiSummary> {
+        if (!aiSummariesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const result = await aiSummariesCollection.insertOne(data);
+        return serializeAiSummary({ ...data, _id: result.insertedId });
+    }
+
+    /**
+     * Get all stored summaries for a patient, most recent first
+     */
+    static async getSummariesByPatientId(patientId: number): Promise<SerializedAiSummary[]> {
+        if (!aiSummariesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const summaries = await aiSummariesCollection.find({ patientId }).sort({ generatedAt: -1 }).toArray();
+        return summaries.map(serializeAiSummary);
+    }
+}
@@ -0,0 +1,250 @@
+import { createHash } from 'crypto';
+import { patientsCollection, appointmentsCollection, treatmentsCollection, treatmentPlansCollection, aiSummariesCollection, consentsCollection } from '../database';
+import { Patient, TreatmentAttachment, Anamnesis, TreatmentAmendment, TreatmentSnapshot, SoapNote } from '../models';
+import { HTTPError } from '../utils/errors';
+import { escapeRegex } from '../utils/queryBuilder';
+import { deleteAttachmentFiles } from '../utils/fileHandler';
+import { collectAttachmentFiles } from '../utils/treatmentHistory';
+import { PatientService } from './patientService';
+import { AnonymisationReport } from '../types/patient';
+
+type IdentityField = 'name' | 'surname' | 'email' | 'phoneNumber' | 'address' | 'fiscalCode';
+
+/**
+ * Build a stable pseudonym for a patient field. Pseudonyms are derived from the internal
+ * patient id only, so they stay the same across runs but carry no trace of the original value.
+ */
+function pseudonym(patientId: number, field: IdentityField): string {
+    return createHash('sha256').update(`${field}:${patientId}`).digest('hex').slice(0, 10).toUpperCase();
+}
+
+/**
+ * Build the replacement values for every identity field of a patient
+ */
+function buildPseudonyms(patientId: number): Record<IdentityField, string> {
+    return {
+        name: 'Anonimo',
+        surname: `P-${pseudonym(patientId, 'surname')}`,
+        email: `anon-${pseudonym(patientId, 'email').toLowerCase()}@anonymised.invalid`,
+        phoneNumber: `ANON-${pseudonym(patientId, 'phoneNumber')}`,
+        address: `ANON-${pseudonym(patientId, 'address')}`,
+        fiscalCode: `ANON${pseudonym(patientId, 'fiscalCode')}`
+    };
+}
+
+/**
+ * Build a function that replaces a patient's identifiers inside free text with their pseudonyms
+ */
+function buildScrubber(patient: Patient, pseudonyms: Record<IdentityField, string>): (text: string) => string {
+    const replacements: Array<[string, string]> = [
+        [`${patient.name} ${patient.surname}`, `${pseudonyms.name} ${pseudonyms.surname}`],
+        [`${patient.surname} ${patient.name}`, `${pseudonyms.surname} ${pseudonyms.name}`],
+        [patient.email, pseudonyms.email],
+        [patient.phoneNumber, pseudonyms.phoneNumber],
+        [patient.phoneNumber?.replace(/\s+/g, ''), pseudonyms.phoneNumber],
+        [patient.address, pseudonyms.address],
+        [patient.fiscalCode, pseudonyms.fiscalCode],
+        [patient.surname, pseudonyms.surname],
+        [patient.name, pseudonyms.name]
+    ];
+
+    // Replace longer terms first so that full names win over their parts
+    const rules = replacements
+        .filter(([term]) => term && term.trim().length > 1)
+        .sort(([a], [b]) => b.length - a.length)
+        .map(([term, replacement]) => ({
+            pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(term.trim())}(?![\\p{L}\\p{N}])`, 'giu'),
+            replacement
+        }));
+
+    return (text: string) => rules.reduce((result, rule) => result.replace(rule.pattern, rule.replacement), text);
+}
+
+/**
+ * Apply a scrubber to treatment amendments
+ */
+function scrubAmendments(amendments: TreatmentAmendment[] | undefined, scrub: (text: string) => string): TreatmentAmendment[] {
+    return (amendments || []).map(amendment => ({ ...amendment, content: scrub(amendment.content), reason: scrub(amendment.reason) }));
+}
+
+/**
+ * Apply a scrubber to every section of a SOAP note
+ */
+function scrubSoap(soap: SoapNote | null | undefined, scrub: (text: string) => string): SoapNote | null {
+    if (!soap) return null;
+    return {
+        subjective: scrub(soap.subjective || ''),
+        objective: scrub(soap.objective || ''),
+        assessment: scrub(soap.assessment || ''),
+        plan: scrub(soap.plan || '')
+    };
+}
+
+/**
+ * Apply a scrubber to the text of a treatment revision, dropping file attachments
+ */
+function scrubTreatmentSnapshot(snapshot: Partial<TreatmentSnapshot>, scrub: (text: string) => string): Partial<TreatmentSnapshot> {
+    const scrubbed = { ...snapshot };
+    if (snapshot.content !== undefined) scrubbed.content = scrub(snapshot.content);
+    if (snapshot.attachemnts !== undefined) {
+        scrubbed.attachemnts = snapshot.attachemnts
+            .filter(attachment => attachment.type === 'text')
+            .map(attachment => ({ ...attachment, data: scrub(attachment.data) }));
+    }
+    if (snapshot.amendments !== undefined) scrubbed.amendments = scrubAmendments(snapshot.amendments, scrub);
+    if (snapshot.soap !== undefined) scrubbed.soap = scrubSoap(snapshot.soap, scrub);
+    return scrubbed;
+}
+
+/**
+ * Apply a scrubber to every section of a structured anamnesis
+ */
+function scrubAnamnesis(anamnesis: Anamnesis | undefined, scrub: (text: string) => string): Anamnesis | undefined {
+    if (!anamnesis) return anamnesis;
+    return {
+        allergies: (anamnesis.allergies || []).map(scrub),
+        currentMedications: (anamnesis.currentMedications || []).map(scrub),
+        chronicConditions: (anamnesis.chronicConditions || []).map(scrub),
+        pastSurgeries: (anamnesis.pastSurgeries || []).map(scrub),
+        lifestyle: scrub(anamnesis.lifestyle || '')
+    };
+}
+
+/**
+ * Service for GDPR right-to-erasure anonymisation
+ */
+export class AnonymisationService {
+    /**
+     * Irreversibly replace a patient's identity with stable pseudonyms, scrub identifiers from
+     * clinical text and delete file attachments and signed consent documents. Dates and record counts are kept so statistics
+     * and clinical history remain intact.
+     */
+    static async anonymisePatient(id: string): Promise<AnonymisationReport> {
+        if (!patientsCollection || !appointmentsCollection || !treatmentsCollection || !treatmentPlansCollection || !aiSummariesCollection || !consentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const patient = await PatientService.getPatientById(id);
+
+        if (patient.anonymisedAt) {
+            throw new HTTPError('Patient has already been anonymised', 409, 'Conflict');
+        }
+
+        const pseudonyms = buildPseudonyms(patient.id);
+        const scrub = buildScrubber(patient, pseudonyms);
+        const now = new Date();
+
+        let treatmentsScrubbed = 0;
+        let filesDeleted = 0;
+        const treatments = await treatmentsCollection.find({ patientId: patient.id }).toArray();
+        for (const treatment of treatments) {
+            const textAttachments: TreatmentAttachment[] = (treatment.attachemnts || [])
+                .filter(attachment => attachment.type === 'text')
+                .map(attachment => ({ ...attachment, data: scrub(attachment.data) }));
+
+            // Files removed earlier are still on disk while revisions reference them
+            filesDeleted += await deleteAttachmentFiles(collectAttachmentFiles(treatment));
+
+            await treatmentsCollection.updateOne(
+                { _id: treatment._id },
+                {
+                    $set: {
+                        content: scrub(treatment.content || ''),
+                        attachemnts: textAttachments,
+                        amendments: scrubAmendments(treatment.amendments, scrub),
+                        soap: scrubSoap(treatment.soap, scrub),
+                        // Earlier revisions hold the same text, and files that no longer exist
+                        revisions: (treatment.revisions || []).map(revision => ({
+                            ...revision,
+                            ...(revision.reason ? { reason: scrub(revision.reason) } : {}),
+                            previous: scrubTreatmentSnapshot(revision.previous, scrub),
+                            snapshot: scrubTreatmentSnapshot(revision.snapshot, scrub) as TreatmentSnapshot
+                        })),
+                        updatedAt: now
+                    }
+                }
+            );
+            treatmentsScrubbed++;
+        }
+
+        // Signed consent forms carry the patient's name and signature; the consent records themselves are kept
+        const consents = await consentsCollection.find({ patientId: patient.id, document: { $exists: true } }).toArray();
+        for (const consent of consents) {
+            if (consent.document) {
+                filesDeleted += await deleteAttachmentFiles([consent.document]);
+            }
+        }
+        await consentsCollection.updateMany(
+            { patientId: patient.id, document: { $exists: true } },
+            { $unset: { document: '' }, $set: { updatedAt: now } }
+        );
+
+        const plans = await treatmentPlansCollection.find({ patientId: patient.id }).toArray();
+        for (const plan of plans) {
+            const update: Record<string, string | Date> = { goal: scrub(plan.goal), updatedAt: now };
+            if (plan.notes !== undefined) update.notes = scrub(plan.notes);
+            if (plan.outcome?.notes !== undefined) update['outcome.notes'] = scrub(plan.outcome.notes);
+            await treatmentPlansCollection.updateOne({ _id: plan._id }, { $set: update });
+        }
+
+        const summaries = await aiSummariesCollection.find({ patientId: patient.id }).toArray();
+        for (const summary of summaries) {
+            await aiSummariesCollection.updateOne({ _id: summary._id }, { $set: { summary: scrub(summary.summary) } });
+        }
+
+        await patientsCollection.updateOne(
+            { _id: patient._id },
+            {
+                $set: {
+                    ...pseudonyms,
+                    anamnesi: scrub(patient.anamnesi || ''),
+                    anamnesis: scrubAnamnesis(patient.anamnesis, scrub),
+                    anamnesisHistory: (patient.anamnesisHistory || []).map(revision => ({
+                        ...revision,
+                        anamnesis: scrubAnamnesis(revision.anamnesis, scrub)!,
+                        anamnesi: scrub(revision.anamnesi || '')
+                    })),
+                    treatments: (patient.treatments || []).map(treatment => ({
+                        ...treatment,
+                        content: scrub(treatment.content || ''),
+                        attachemnts: []
+                    })),
+                    mergedFrom: (patient.mergedFrom || []).map(record => ({
+                        ...record,
+                        snapshot: { ...pseudonyms, dateOfBirth: record.snapshot.dateOfBirth }
+                    })),
+                    anonymisedAt: now,
+                    updatedAt: now
+                },
+                $unset: { birthPlaceCode: '' }
+            }
+        );
+
+        // Records previously merged into this patient describe the same person
+        const mergedDuplicates = await patientsCollection.find({ mergedInto: patient.id }).toArray();
+        for (const duplicate of mergedDuplicates) {
+            await patientsCollection.updateOne(
+                { _id: duplicate._id },
+                {
+                    $set: { ...buildPseudonyms(duplicate.id), anamnesi: '', anamnesisHistory: [], anonymisedAt: now, updatedAt: now },
+                    $unset: { birthPlaceCode: '', anamnesis: '' }
+                }
+            );
+        }
+
+        // Reminder attempts record the email address or phone number they were sent to
+        await appointmentsCollection.updateMany(
+            { patientId: { $in: [patient.id, ...mergedDuplicates.map(duplicate => duplicate.id)] }, 'reminders.recipient': { $exists: true } },
+            { $unset: { 'reminders.$[].recipient': '' } }
+        );
+
+        return {
+            patientId: patient.id,
+            treatmentsScrubbed,
+            treatmentPlansScrubbed: plans.length,
+            aiSummariesScrubbed: summaries.length,
+            filesDeleted,
+            anonymisedAt: now
+        };
+    }
+}
@@ -0,0 +1,201 @@
+import { Patient } from '../models';
+import { HTTPError } from '../utils/errors';
+import { parseCalendar, ParsedCalendarEvent } from '../utils/ical';
+import { normalizeFiscalCode } from '../utils/fiscalCode';
+import { normalizeForComparison } from '../utils/similarity';
+import { AppointmentService } from './appointmentService';
+import { PatientService } from './patientService';
+import { ScheduleService } from './scheduleService';
+import {
+    AppointmentImportOptions,
+    AppointmentImportReport,
+    ImportedEventSummary,
+    MatchedImportEvent,
+    PatientMatchMethod
+} from '../types/appointmentImport';
+
+/**
+ * Largest number of events accepted in a single import
+ */
+const MAX_IMPORT_EVENTS = 5000;
+
+// Fiscal codes embedded in free text (omocodic variants included)
+const FISCAL_CODE_PATTERN = /\b[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]\b/gi;
+
+/**
+ * Split text into normalized words
+ */
+function toWords(text: string): string[] {
+    return text.split(/[\s,;:.()\/-]+/).map(normalizeForComparison).filter(word => word.length > 0);
+}
+
+/**
+ * Lookup tables for matching calendar events to patients
+ */
+interface PatientIndex {
+    byFiscalCode: Map<string, Patient>;
+    byEmail: Map<string, Patient[]>;
+    patients: Array<{ patient: Patient; words: string[] }>;
+}
+
+/**
+ * Index patients by fiscal code, email and name words
+ */
+function buildPatientIndex(patients: Patient[]): PatientIndex {
+    const index: PatientIndex = { byFiscalCode: new Map(), byEmail: new Map(), patients: [] };
+
+    for (const patient of patients) {
+        if (patient.fiscalCode) {
+            index.byFiscalCode.set(normalizeFiscalCode(patient.fiscalCode), patient);
+        }
+        if (patient.email) {
+            const email = patient.email.trim().toLowerCase();
+            index.byEmail.set(email, [...(index.byEmail.get(email) || []), patient]);
+        }
+        const words = toWords(`${patient.name} ${patient.surname}`);
+        if (words.length >= 2) {
+            index.patients.push({ patient, words });
+        }
+    }
+
+    return index;
+}
+
+/**
+ * Find the patients an event refers to, trying fiscal codes, then attendee emails,
+ * then full names in the summary or attendee names
+ */
+function matchPatients(event: ParsedCalendarEvent, index: PatientIndex): { method: PatientMatchMethod; patients: Patient[] } | null {
+    const text = `${event.summary}\n${event.description}`;
+
+    const byFiscalCode = (text.match(FISCAL_CODE_PATTERN) || [])
+        .map(code => index.byFiscalCode.get(normalizeFiscalCode(code)))
+        .filter((patient): patient is Patient => !!patient);
+    if (byFiscalCode.length > 0) return { method: 'fiscalCode', patients: byFiscalCode };
+
+    const byEmail = event.attendees
+        .flatMap(attendee => (attendee.email ? index.byEmail.get(attendee.email.toLowerCase()) || [] : []));
+    if (byEmail.length > 0) return { method: 'email', patients: byEmail };
+
+    const eventWords = new Set(toWords([event.summary, ...event.attendees.map(attendee => attendee.name || '')].join(' ')));
+    const byName = index.patients
+        .filter(({ words }) => words.every(word => eventWords.has(word)))
+        .map(({ patient }) => patient);
+    if (byName.length > 0) return { method: 'name', patients: byName };
+
+    return null;
+}
+
+/**
+ * Service for importing appointments from iCalendar files
+ */
+export class AppointmentImportService {
+    /**
+     * Import the events of an iCalendar document as appointments. In dry-run mode nothing is
+     * created and the report only lists matches, unmatched events and conflicts.
+     */
+    static async importCalendar(content: string, options: AppointmentImportOptions = {}): Promise<AppointmentImportReport> {
+        const events = parseCalendar(content);
+
+        if (events.length === 0) {
+            throw new HTTPError('The file does not contain any calendar events', 400, 'Validation Error');
+        }
+        if (events.length > MAX_IMPORT_EVENTS) {
+            throw new HTTPError(`Too many events: at most ${MAX_IMPORT_EVENTS} can be imported at once`, 400, 'Validation Error');
+        }
+
+        const dryRun = !!options.dryRun;
+        const report: AppointmentImportReport = {
+            dryRun,
+            totalEvents: events.length,
+            created: 0,
+            matched: [],
+            unmatched: [],
+            skipped: []
+        };
+
+        const uids = events.map(event => event.uid).filter((uid): uid is string => !!uid);
+        const [patients, importedUids] = await Promise.all([
+            PatientService.getActivePatients(),
+            AppointmentService.getImportedSourceUids(uids)
+        ]);
+        const index = buildPatientIndex(patients);
+        const seenUids = new Set(importedUids);
+
+        for (const event of events) {
+            const summary: ImportedEventSummary = { uid: event.uid, summary: event.summary, start: event.start, end: event.end };
+
+            if (event.uid && seenUids.has(event.uid)) {
+                report.skipped.push({ ...summary, reason: 'Already imported' });
+                continue;
+            }
+            if (event.status === 'CANCELLED') {
+                report.skipped.push({ ...summary, reason: 'Cancelled event' });
+                continue;
+            }
+            if (event.recurring) {
+                report.skipped.push({ ...summary, reason: 'Recurring events are not supported; create a series instead' });
+                continue;
+            }
+            if (event.allDay || !event.start || !event.end) {
+                report.skipped.push({ ...summary, reason: 'Event has no start and end time' });
+                continue;
+            }
+            if (event.uid) seenUids.add(event.uid);
+
+            const match = matchPatients(event, index);
+            const candidates = match ? Array.from(new Set(match.patients)) : [];
+            if (!match) {
+                report.unmatched.push({ ...summary, reason: 'No matching patient' });
+                continue;
+            }
+            if (candidates.length > 1) {
+                report.unmatched.push({
+                    ...summary,
+                    reason: `Ambiguous ${match.method} match`,
+                    candidatePatientIds: candidates.map(patient => patient.id)
+                });
+                continue;
+            }
+
+            const slot = {
+                patientId: candidates[0].id,
+                date: event.start,
+                duration: Math.round((event.end.getTime() - event.start.getTime()) / 60000)
+            };
+            const [conflicts, withinWorkingHours] = await Promise.all([
+                AppointmentService.findConflicts(slot),
+                ScheduleService.isWithinWorkingHours(slot)
+            ]);
+
+            const matched: MatchedImportEvent = {
+                ...summary,
+                patientId: candidates[0].id,
+                matchedBy: match.method,
+                conflicts,
+                outsideWorkingHours: !withinWorkingHours
+            };
+            report.matched.push(matched);
+
+            if (dryRun) continue;
+
+            try {
+                const appointment = await AppointmentService.createAppointment({
+                    patientId: matched.patientId,
+                    date: slot.date,
+                    duration: slot.duration,
+                    allowOverlap: options.allowOverlap,
+                    allowOutsideHours: options.allowOutsideHours,
+                    sourceUid: event.uid
+                });
+                matched.appointmentId = appointment.id;
+                report.created++;
+            } catch (error) {
+                if (!(error instanceof HTTPError)) throw error;
+                matched.error = error.message;
+            }
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,569 @@
+import { ObjectId } from 'mongodb';
+import { appointmentsCollection, appointmentSeriesCollection } from '../database';
+import { Appointment, AppointmentSeries, AppointmentStatus } from '../models';
+import { HTTPError, getDuplicateKeyField } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { parseRRule, formatRRule, expandRRule, countOccurrencesBefore, RecurrenceRule } from '../utils/rrule';
+import {
+    CreateAppointmentSeriesRequest,
+    UpdateAppointmentSeriesRequest,
+    SeriesEditScope,
+    SERIES_EDIT_SCOPES
+} from '../types/appointment';
+import {
+    AppointmentService,
+    SerializedAppointment,
+    DEFAULT_APPOINTMENT_DURATION,
+    getAppointmentEnd,
+    validateSchedule
+} from './appointmentService';
+import { PatientService } from './patientService';
+import { PractitionerService } from './practitionerService';
+import { RoomService } from './roomService';
+import { ScheduleService } from './scheduleService';
+
+/**
+ * Serialized appointment series type for API responses (only id, no _id)
+ */
+export type SerializedAppointmentSeries = Omit<AppointmentSeries, '_id'> & { id: string };
+
+/**
+ * Series together with its materialized occurrences
+ */
+export type AppointmentSeriesDetails = SerializedAppointmentSeries & { occurrences: SerializedAppointment[] };
+
+/**
+ * Serialize appointment series for API response (convert _id to id as string, remove _id)
+ */
+function serializeSeries(series: AppointmentSeries): SerializedAppointmentSeries {
+    const { _id, ...rest } = series;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * How many days ahead occurrences are stored as appointments when a series is created or edited.
+ * Later occurrences are materialized on demand when a listing window reaches them.
+ */
+export const SERIES_HORIZON_DAYS = Number(process.env.SERIES_HORIZON_DAYS) || 180;
+
+/**
+ * Occurrence statuses that are regenerated when a series changes; the others are history and are kept
+ */
+const REGENERATED_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+/**
+ * Get the end of the eager materialization window for a series starting at the given date
+ */
+function getHorizonEnd(dtstart: Date): Date {
+    const from = dtstart > new Date() ? dtstart : new Date();
+    return new Date(from.getTime() + SERIES_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Get the start of the last occurrence of a series, or null when the rule is open-ended
+ */
+function computeEndsAt(rule: RecurrenceRule, dtstart: Date): Date | null {
+    if (rule.until) return rule.until;
+    if (rule.count === undefined) return null;
+
+    const occurrences = expandRRule(rule, dtstart, dtstart, new Date(8.64e15));
+    return occurrences[occurrences.length - 1] ?? dtstart;
+}
+
+/**
+ * Parse a list of excluded occurrence dates
+ */
+function parseExdates(values: (string | Date)[] | undefined): Date[] {
+    if (values === undefined) return [];
+    if (!Array.isArray(values)) {
+        assertNoFieldErrors([{ field: 'exdates', message: 'Excluded dates must be an array' }]);
+    }
+
+    const dates = values.map(value => new Date(value));
+    if (dates.some(date => isNaN(date.getTime()))) {
+        assertNoFieldErrors([{ field: 'exdates', message: 'Excluded dates must be valid dates' }]);
+    }
+    return dates;
+}
+
+/**
+ * Parse the scope of a series edit or deletion
+ */
+function parseScope(value: string | undefined): SeriesEditScope {
+    if (!value || !SERIES_EDIT_SCOPES.includes(value as SeriesEditScope)) {
+        throw new HTTPError(
+            `Invalid scope: must be one of ${SERIES_EDIT_SCOPES.join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+    return value as SeriesEditScope;
+}
+
+/**
+ * Get the rule of a series truncated so that its last occurrence is before the given date
+ */
+function truncateRule(series: AppointmentSeries, before: Date): RecurrenceRule {
+    const rule = parseRRule(series.rrule);
+    if (rule.count !== undefined) {
+        return { ...rule, count: countOccurrencesBefore(rule, series.dtstart, before) };
+    }
+    return { ...rule, until: new Date(before.getTime() - 1000) };
+}
+
+/**
+ * Service for recurring appointment series. Occurrences are stored as ordinary appointments
+ * keyed by series and original start, so they can be confirmed, moved or cancelled one by one.
+ */
+export class AppointmentSeriesService {
+    /**
+     * Get a series with its materialized occurrences
+     */
+    static async getSeriesById(id: string): Promise<AppointmentSeriesDetails> {
+        const series = await this.findSeries(id);
+        return await this.buildDetails(series);
+    }
+
+    /**
+     * Create a recurring series and materialize its upcoming occurrences
+     */
+    static async createSeries(data: CreateAppointmentSeriesRequest): Promise<AppointmentSeriesDetails> {
+        if (!appointmentSeriesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['patientId', 'date', 'rrule']);
+
+        const now = new Date();
+        const series = await this.buildSeries({
+            patientId: Number(data.patientId),
+            dtstart: new Date(data.date),
+            duration: data.duration !== undefined ? Number(data.duration) : DEFAULT_APPOINTMENT_DURATION,
+            practitionerId: data.practitionerId ?? null,
+            roomId: data.roomId ?? null,
+            rrule: data.rrule,
+            exdates: parseExdates(data.exdates),
+            createdAt: now,
+            updatedAt: now
+        });
+
+        if (data.allowOutsideHours !== true) {
+            await this.assertWithinWorkingHours(series);
+        }
+        if (data.allowOverlap !== true) {
+            await this.assertNoConflicts(series);
+        }
+
+        const result = await appointmentSeriesCollection.insertOne(series);
+        const createdSeries = { ...series, _id: result.insertedId };
+        await this.materializeSeries(createdSeries, createdSeries.dtstart, getHorizonEnd(createdSeries.dtstart));
+
+        return await this.buildDetails(createdSeries);
+    }
+
+    /**
+     * Edit a single occurrence, an occurrence and the following ones, or the whole series.
+     * Splitting or editing the series regenerates its scheduled and confirmed occurrences,
+     * discarding their individual changes; cancelled, missed and completed ones are kept.
+     * The whole series is edited from its first upcoming occurrence, leaving past ones untouched.
+     */
+    static async updateSeries(id: string, data: UpdateAppointmentSeriesRequest): Promise<AppointmentSeriesDetails> {
+        if (!appointmentSeriesCollection || !appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const scope = parseScope(data.scope);
+        const series = await this.findSeries(id);
+
+        if (scope === 'this') {
+            const occurrence = await this.materializeOccurrence(series, data.occurrenceDate);
+            await AppointmentService.updateAppointment(occurrence._id!.toString(), {
+                patientId: data.patientId,
+                date: data.date,
+                duration: data.duration,
+                practitionerId: data.practitionerId,
+                roomId: data.roomId,
+                allowOverlap: data.allowOverlap,
+                allowOutsideHours: data.allowOutsideHours
+            });
+            return await this.buildDetails(series);
+        }
+
+        const now = new Date();
+        const anchor = scope === 'all'
+            ? this.findNextOccurrence(series, now)
+            : this.assertOccurrence(series, data.occurrenceDate);
+        const splitting = anchor.getTime() > series.dtstart.getTime();
+
+        // Shift everything from the anchor by the distance its start was moved
+        const delta = data.date !== undefined ? new Date(data.date).getTime() - anchor.getTime() : 0;
+        const shift = (date: Date) => new Date(new Date(date).getTime() + delta);
+
+        let rrule = data.rrule;
+        if (rrule === undefined) {
+            const rule = parseRRule(series.rrule);
+            if (splitting && rule.count !== undefined) {
+                rule.count -= countOccurrencesBefore(rule, series.dtstart, anchor);
+            }
+            rrule = formatRRule(rule);
+        }
+
+        const target = await this.buildSeries({
+            patientId: data.patientId !== undefined ? Number(data.patientId) : series.patientId,
+            dtstart: shift(anchor),
+            duration: data.duration !== undefined ? Number(data.duration) : series.duration,
+            practitionerId: data.practitionerId !== undefined ? data.practitionerId : series.practitionerId ?? null,
+            roomId: data.roomId !== undefined ? data.roomId : series.roomId ?? null,
+            rrule,
+            exdates: series.exdates.filter(date => date >= anchor).map(shift),
+            createdAt: splitting ? now : series.createdAt,
+            updatedAt: now
+        });
+
+        const occurrences = await appointmentsCollection
+            .find({ seriesId: series._id!.toString(), originalDate: { $gte: anchor } })
+            .toArray();
+        // Editing the whole series leaves occurrences moved into the past as history
+        const regenerated = occurrences.filter(occurrence => REGENERATED_STATUSES.includes(occurrence.status ?? 'scheduled')
+            && (scope !== 'all' || occurrence.date >= now));
+        const kept = occurrences.filter(occurrence => !regenerated.includes(occurrence));
+
+        if (data.allowOutsideHours !== true) {
+            await this.assertWithinWorkingHours(target);
+        }
+        if (data.allowOverlap !== true) {
+            await this.assertNoConflicts(target, occurrences.map(occurrence => occurrence._id!.toString()));
+        }
+
+        let targetId = series._id!;
+        if (splitting) {
+            const truncated = truncateRule(series, anchor);
+            await appointmentSeriesCollection.updateOne(
+                { _id: series._id } as any,
+                {
+                    $set: {
+                        rrule: formatRRule(truncated),
+                        exdates: series.exdates.filter(date => date < anchor),
+                        endsAt: computeEndsAt(truncated, series.dtstart),
+                        updatedAt: now
+                    }
+                }
+            );
+            const result = await appointmentSeriesCollection.insertOne(target);
+            targetId = result.insertedId;
+        } else {
+            await appointmentSeriesCollection.updateOne({ _id: series._id } as any, { $set: target });
+        }
+
+        await appointmentsCollection.deleteMany({ _id: { $in: regenerated.map(occurrence => occurrence._id!) } } as any);
+
+        // Kept occurrences move to the target series; shift keys in an order that cannot collide
+        kept.sort((a, b) => delta > 0
+            ? b.originalDate!.getTime() - a.originalDate!.getTime()
+            : a.originalDate!.getTime() - b.originalDate!.getTime());
+        for (const occurrence of kept) {
+            await appointmentsCollection.updateOne(
+                { _id: occurrence._id } as any,
+                { $set: { seriesId: targetId.toString(), originalDate: shift(occurrence.originalDate!), updatedAt: now } }
+            );
+        }
+
+        const updatedSeries = { ...target, _id: targetId };
+        const materializeFrom = scope === 'all' && updatedSeries.dtstart < now ? now : updatedSeries.dtstart;
+        await this.materializeSeries(updatedSeries, materializeFrom, getHorizonEnd(updatedSeries.dtstart));
+
+        return await this.buildDetails(updatedSeries);
+    }
+
+    /**
+     * Delete a single occurrence, an occurrence and the following ones, or the whole series.
+     * Cancelled, missed and completed occurrences are kept as standalone history.
+     */
+    static async deleteSeries(id: string, scope: string | undefined, occurrenceDate?: string): Promise<void> {
+        if (!appointmentSeriesCollection || !appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const editScope = parseScope(scope);
+        const series = await this.findSeries(id);
+        const seriesId = series._id!.toString();
+
+        if (editScope === 'this') {
+            const date = this.assertOccurrence(series, occurrenceDate);
+            await this.excludeOccurrence(seriesId, date);
+
+            // Only a scheduled or confirmed occurrence is removed; any other is kept as standalone history
+            const deleted = await appointmentsCollection.findOneAndDelete(
+                { seriesId, originalDate: date, status: { $in: REGENERATED_STATUSES } } as any
+            );
+            if (deleted) {
+                const { _id, ...rest } = deleted;
+                await AppointmentService.offerToWaitlist({ ...rest, id: _id!.toString() });
+            } else {
+                await appointmentsCollection.updateOne(
+                    { seriesId, originalDate: date },
+                    { $unset: { seriesId: '', originalDate: '' } }
+                );
+            }
+            return;
+        }
+
+        const anchor = editScope === 'all' ? series.dtstart : this.assertOccurrence(series, occurrenceDate);
+
+        // Deleting the whole series keeps its past occurrences as history
+        const deleteQuery: any = { seriesId, originalDate: { $gte: anchor }, status: { $in: REGENERATED_STATUSES } };
+        if (editScope === 'all') deleteQuery.date = { $gte: new Date() };
+        await appointmentsCollection.deleteMany(deleteQuery);
+
+        if (anchor.getTime() > series.dtstart.getTime()) {
+            const truncated = truncateRule(series, anchor);
+            await appointmentSeriesCollection.updateOne(
+                { _id: series._id } as any,
+                {
+                    $set: {
+                        rrule: formatRRule(truncated),
+                        exdates: series.exdates.filter(date => date < anchor),
+                        endsAt: computeEndsAt(truncated, series.dtstart),
+                        updatedAt: new Date()
+                    }
+                }
+            );
+            return;
+        }
+
+        await appointmentsCollection.updateMany({ seriesId }, { $unset: { seriesId: '', originalDate: '' } });
+        await appointmentSeriesCollection.deleteOne({ _id: series._id } as any);
+    }
+
+    /**
+     * Store as appointments every series occurrence falling within a date range
+     */
+    static async materializeRange(start: Date, end: Date): Promise<void> {
+        if (!appointmentSeriesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const seriesList = await appointmentSeriesCollection.find({
+            dtstart: { $lte: end },
+            $or: [{ endsAt: null }, { endsAt: { $gte: start } }]
+        }).toArray();
+
+        // Series of deleted, merged or purged patients must not book anything more
+        const patientIds = Array.from(new Set(seriesList.map(series => series.patientId)));
+        const activePatientIds = new Set((await PatientService.getPatientsByIds(patientIds)).map(patient => patient.id));
+
+        for (const series of seriesList) {
+            if (!activePatientIds.has(series.patientId)) continue;
+            await this.materializeSeries(series, start, end);
+        }
+    }
+
+    /**
+     * Exclude an occurrence so that it is not materialized again
+     */
+    static async excludeOccurrence(seriesId: string, originalDate: Date): Promise<void> {
+        if (!appointmentSeriesCollection || !ObjectId.isValid(seriesId)) return;
+
+        await appointmentSeriesCollection.updateOne(
+            { _id: new ObjectId(seriesId) } as any,
+            { $addToSet: { exdates: originalDate }, $set: { updatedAt: new Date() } }
+        );
+    }
+
+    /**
+     * Upsert the occurrences of a series within a date range; existing occurrences are left untouched
+     */
+    private static async materializeSeries(series: AppointmentSeries, start: Date, end: Date): Promise<void> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const seriesId = series._id!.toString();
+        // Series ended early, e.g. when their patient was deleted, stop at their end
+        const until = series.endsAt && series.endsAt < end ? series.endsAt : end;
+        const dates = expandRRule(parseRRule(series.rrule), series.dtstart, start, until, series.exdates);
+        if (dates.length === 0) return;
+
+        const now = new Date();
+        const operations = dates.map(date => ({
+            updateOne: {
+                filter: { seriesId, originalDate: date },
+                update: {
+                    $setOnInsert: {
+                        patientId: series.patientId,
+                        date,
+                        duration: series.duration,
+                        endDate: getAppointmentEnd({ date, duration: series.duration }),
+                        status: 'scheduled' as AppointmentStatus,
+                        practitionerId: series.practitionerId ?? null,
+                        roomId: series.roomId ?? null,
+                        createdAt: now,
+                        updatedAt: now
+                    }
+                },
+                upsert: true
+            }
+        }));
+
+        try {
+            await appointmentsCollection.bulkWrite(operations, { ordered: false });
+        } catch (error) {
+            // A concurrent request materialized the same occurrence first
+            if (getDuplicateKeyField(error) === null) throw error;
+        }
+    }
+
+    /**
+     * Get the stored appointment of an occurrence, materializing it if needed
+     */
+    private static async materializeOccurrence(series: AppointmentSeries, occurrenceDate: string | Date | undefined): Promise<Appointment> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const date = this.assertOccurrence(series, occurrenceDate);
+        await this.materializeSeries(series, date, date);
+
+        const occurrence = await appointmentsCollection.findOne({ seriesId: series._id!.toString(), originalDate: date });
+        if (!occurrence) {
+            throw new HTTPError('Occurrence not found', 404, 'Not Found');
+        }
+        return occurrence;
+    }
+
+    /**
+     * Get the first occurrence of the series that has not started yet
+     */
+    private static findNextOccurrence(series: AppointmentSeries, now: Date): Date {
+        if (series.dtstart >= now) return series.dtstart;
+
+        const [next] = expandRRule(parseRRule(series.rrule), series.dtstart, now, getHorizonEnd(series.dtstart), series.exdates);
+        if (!next) {
+            throw new HTTPError('Series has no upcoming occurrences to edit', 409, 'Conflict');
+        }
+        return next;
+    }
+
+    /**
+     * Ensure a date is an occurrence of the series and return it
+     */
+    private static assertOccurrence(series: AppointmentSeries, occurrenceDate: string | Date | undefined): Date {
+        const date = occurrenceDate !== undefined ? new Date(occurrenceDate) : null;
+        if (!date || isNaN(date.getTime())) {
+            assertNoFieldErrors([{ field: 'occurrenceDate', message: 'Occurrence date is required for this scope' }]);
+        }
+
+        const [match] = expandRRule(parseRRule(series.rrule), series.dtstart, date!, date!, series.exdates);
+        if (!match) {
+            throw new HTTPError('Occurrence not found in series', 404, 'Not Found');
+        }
+        return match;
+    }
+
+    /**
+     * Validate the fields of a series and compute its end
+     */
+    private static async buildSeries(series: Omit<AppointmentSeries, '_id' | 'endsAt'>): Promise<Omit<AppointmentSeries, '_id'>> {
+        validateSchedule(series.dtstart, series.duration);
+
+        const rule = parseRRule(series.rrule);
+        if (rule.until && expandRRule(rule, series.dtstart, series.dtstart, rule.until).length === 0) {
+            throw new HTTPError('Invalid RRULE: the rule produces no occurrences', 400, 'Validation Error');
+        }
+
+        if (isNaN(series.patientId) || !(await PatientService.patientExists(series.patientId))) {
+            assertNoFieldErrors([{ field: 'patientId', message: `Patient ${series.patientId} does not exist` }]);
+        }
+        await PractitionerService.assertAssignable(series.practitionerId);
+        await RoomService.assertAssignable(series.roomId);
+
+        return {
+            ...series,
+            rrule: formatRRule(rule),
+            endsAt: computeEndsAt(rule, series.dtstart)
+        };
+    }
+
+    /**
+     * Reject a series with upcoming occurrences outside working hours, listing them so they
+     * can be excluded or moved
+     */
+    private static async assertWithinWorkingHours(series: Omit<AppointmentSeries, '_id'>): Promise<void> {
+        const now = new Date();
+        const from = series.dtstart > now ? series.dtstart : now;
+        const dates = expandRRule(parseRRule(series.rrule), series.dtstart, from, getHorizonEnd(series.dtstart), series.exdates);
+
+        const outsideWorkingHours: Date[] = [];
+        for (const date of dates) {
+            if (!(await ScheduleService.isWithinWorkingHours({ date, duration: series.duration }))) {
+                outsideWorkingHours.push(date);
+            }
+        }
+
+        if (outsideWorkingHours.length > 0) {
+            throw new HTTPError(
+                'Some occurrences fall outside working hours. Exclude them or set allowOutsideHours to book them anyway.',
+                409,
+                'Conflict',
+                { outsideWorkingHours }
+            );
+        }
+    }
+
+    /**
+     * Reject a series whose upcoming occurrences overlap existing appointments, listing the conflicts
+     */
+    private static async assertNoConflicts(series: Omit<AppointmentSeries, '_id'>, ignoredIds: string[] = []): Promise<void> {
+        const now = new Date();
+        const from = series.dtstart > now ? series.dtstart : now;
+        const dates = expandRRule(parseRRule(series.rrule), series.dtstart, from, getHorizonEnd(series.dtstart), series.exdates);
+
+        const conflicts: Array<{ date: Date; conflicts: SerializedAppointment[] }> = [];
+        for (const date of dates) {
+            const slot = { patientId: series.patientId, date, duration: series.duration, practitionerId: series.practitionerId, roomId: series.roomId };
+            const overlapping = (await AppointmentService.findConflicts(slot))
+                .filter(appointment => !ignoredIds.includes(appointment.id));
+            if (overlapping.length > 0) {
+                conflicts.push({ date, conflicts: overlapping });
+            }
+        }
+
+        if (conflicts.length > 0) {
+            throw new HTTPError(
+                'Some occurrences overlap existing appointments. Set allowOverlap to book them anyway.',
+                409,
+                'Conflict',
+                { conflicts }
+            );
+        }
+    }
+
+    /**
+     * Get a series document by ID
+     */
+    private static async findSeries(id: string): Promise<AppointmentSeries> {
+        if (!appointmentSeriesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const series = await appointmentSeriesCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!series) {
+            throw new HTTPError('Appointment series not found', 404, 'Not Found');
+        }
+
+        return series;
+    }
+
+    /**
+     * Combine a series with its stored occurrences
+     */
+    private static async buildDetails(series: AppointmentSeries): Promise<AppointmentSeriesDetails> {
+        const occurrences = await AppointmentService.getAllAppointments({ seriesId: series._id!.toString() });
+        return { ...serializeSeries(series), occurrences };
+    }
+}
@@ -1,42 +1,198 @@
 import { appointmentsCollection } from '../database';
-import { Appointment } from '../models';
-import { HTTPError } from '../utils/errors';
+import { Appointment, AppointmentStatus } from '../models';
+import { HTTPError, getDuplicateKeyField } from '../utils/errors';
 import { buildObjectIdQuery, buildDateRangeQuery } from '../utils/queryBuilder';
-import { validateRequiredFields } from '../utils/validation';
-import { CreateAppointmentRequest, UpdateAppointmentRequest, AppointmentQueryParams } from '../types/appointment';
+import { validateRequiredFields, assertNoFieldErrors, FieldError } from '../utils/validation';
+import { deleteAttachmentFiles } from '../utils/fileHandler';
+import {
+    CreateAppointmentRequest,
+    UpdateAppointmentRequest,
+    AppointmentQueryParams,
+    CancelAppointmentRequest,
+    CompleteAppointmentRequest,
+    CompletedAppointment,
+    APPOINTMENT_STATUSES
+} from '../types/appointment';
+import { PatientService } from './patientService';
+import { AppointmentSeriesService } from './appointmentSeriesService';
+import { PractitionerService } from './practitionerService';
+import { RoomService } from './roomService';
+import { ScheduleService } from './scheduleService';
+import { WaitlistService } from './waitlistService';
+import { TreatmentService } from './treatmentService';
+import { TreatmentPlanService } from './treatmentPlanService';
 
 /**
  * Serialized appointment type for API responses (only id, no _id)
  */
-export type SerializedAppointment = Omit<Appointment, '_id'> & { id: string };
+export type SerializedAppointment = Omit<Appointment, '_id' | 'reminderClaims'> & { id: string };
 
 /**
  * Serialize appointment for API response (convert _id to id as string, remove _id)
  */
 function serializeAppointment(appointment: Appointment): SerializedAppointment {
-    const { _id, ...rest } = appointment;
+    const { _id, reminderClaims, ...rest } = appointment;
     return {
         ...rest,
+        status: rest.status ?? 'scheduled',
+        endDate: rest.endDate ?? getAppointmentEnd(appointment),
         id: _id?.toString() || ''
     };
 }
 
+/**
+ * Duration in minutes used when an appointment does not specify one
+ */
+export const DEFAULT_APPOINTMENT_DURATION = Number(process.env.DEFAULT_APPOINTMENT_DURATION) || 60;
+
+/**
+ * Longest allowed appointment in minutes; also bounds the conflict search window
+ */
+const MAX_APPOINTMENT_DURATION = 8 * 60;
+
+/**
+ * Get the end time of an appointment
+ */
+export function getAppointmentEnd(appointment: Pick<Appointment, 'date' | 'duration'>): Date {
+    const duration = appointment.duration ?? DEFAULT_APPOINTMENT_DURATION;
+    return new Date(new Date(appointment.date).getTime() + duration * 60 * 1000);
+}
+
+/**
+ * A time slot to check for conflicts; the patient is known when booking for one
+ */
+export type ConflictSlot = Pick<Appointment, 'date' | 'duration' | 'practitionerId' | 'roomId'> & Partial<Pick<Appointment, 'patientId'>>;
+
+/**
+ * Check whether an existing appointment prevents booking a time slot: it must overlap the slot,
+ * still occupy its time and either be for the same patient or share a practitioner or a room.
+ * Appointments without a practitioner or room, on either side, compete with the whole schedule.
+ */
+export function blocksSlot(slot: ConflictSlot, appointment: Appointment): boolean {
+    if (FREED_STATUSES.includes(appointment.status ?? 'scheduled')) return false;
+
+    const start = new Date(slot.date);
+    if (new Date(appointment.date) >= getAppointmentEnd(slot) || getAppointmentEnd(appointment) <= start) return false;
+
+    // A patient cannot attend two appointments at once, whatever resources they book
+    if (slot.patientId !== undefined && appointment.patientId === slot.patientId) return true;
+
+    if (!slot.practitionerId && !slot.roomId) return true;
+    if (!appointment.practitionerId && !appointment.roomId) return true;
+    return (!!slot.practitionerId && appointment.practitionerId === slot.practitionerId)
+        || (!!slot.roomId && appointment.roomId === slot.roomId);
+}
+
+/**
+ * Allowed status transitions; cancelled, no-show and completed are final
+ */
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+    'scheduled': ['confirmed', 'cancelled', 'no-show', 'completed'],
+    'confirmed': ['cancelled', 'no-show', 'completed'],
+    'cancelled': [],
+    'no-show': [],
+    'completed': []
+};
+
+/**
+ * Timestamp field set when an appointment enters a status
+ */
+const STATUS_TIMESTAMPS: Partial<Record<AppointmentStatus, keyof Appointment>> = {
+    'confirmed': 'confirmedAt',
+    'cancelled': 'cancelledAt',
+    'no-show': 'noShowAt',
+    'completed': 'completedAt'
+};
+
+/**
+ * Statuses whose appointments no longer occupy their time slot
+ */
+const FREED_STATUSES: AppointmentStatus[] = ['cancelled'];
+
+/**
+ * Build a filter matching the appointments that may overlap a time range: they must start
+ * before it ends and no earlier than the longest possible appointment before it starts
+ */
+function buildOverlapQuery(start: Date, end: Date): any {
+    return {
+        date: {
+            $gt: new Date(start.getTime() - MAX_APPOINTMENT_DURATION * 60 * 1000),
+            $lt: end
+        },
+        status: { $nin: FREED_STATUSES }
+    };
+}
+
+/**
+ * Build a filter matching appointments in any of the given statuses
+ * (appointments without a status count as scheduled)
+ */
+function buildStatusQuery(statuses: AppointmentStatus[]) {
+    if (statuses.includes('scheduled')) {
+        return { $or: [{ status: { $in: statuses } }, { status: { $exists: false } }] };
+    }
+    return { status: { $in: statuses } };
+}
+
+/**
+ * Parse a comma-separated status filter
+ */
+function parseStatuses(value: string): AppointmentStatus[] {
+    const statuses = value.split(',').map(status => status.trim()).filter(status => status.length > 0);
+    const invalid = statuses.filter(status => !APPOINTMENT_STATUSES.includes(status as AppointmentStatus));
+    if (invalid.length > 0) {
+        throw new HTTPError(
+            `Invalid status: ${invalid.join(', ')}. Allowed: ${APPOINTMENT_STATUSES.join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+    return statuses as AppointmentStatus[];
+}
+
+/**
+ * Resolve the duration in minutes from either an explicit duration or an end date
+ */
+function resolveDuration(date: Date, duration?: number, endDate?: string | Date): number | undefined {
+    if (duration !== undefined) return Number(duration);
+    if (endDate !== undefined) return Math.round((new Date(endDate).getTime() - date.getTime()) / 60000);
+    return undefined;
+}
+
+/**
+ * Validate the scheduling fields of an appointment request
+ */
+export function validateSchedule(date: Date, duration: number): void {
+    const errors: FieldError[] = [];
+
+    if (isNaN(date.getTime())) {
+        errors.push({ field: 'date', message: 'Date is not valid' });
+    }
+    if (!Number.isInteger(duration) || duration < 1 || duration > MAX_APPOINTMENT_DURATION) {
+        errors.push({ field: 'duration', message: `Duration must be a whole number of minutes between 1 and ${MAX_APPOINTMENT_DURATION}` });
+    }
+
+    assertNoFieldErrors(errors);
+}
+
 /**
  * Service for appointment-related business logic
  */
 export class AppointmentService {
     /**
-     * Get all appointments with optional filters
+     * Get all appointments with optional filters.
+     * Recurring series occurrences inside the requested date window are materialized first.
      */
     static async getAllAppointments(params: AppointmentQueryParams): Promise<SerializedAppointment[]> {
         if (!appointmentsCollection) {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        const query: any = {};
+        // Hide appointments belonging to soft-deleted patients
+        const query: any = { patientId: { $nin: await PatientService.getDeletedPatientIds() } };
         
         if (params.patientId) {
-            query.patientId = Number(params.patientId);
+            query.patientId.$eq = Number(params.patientId);
         }
         
         if (params.date) {
@@ -47,10 +203,45 @@ export class AppointmentService {
             Object.assign(query, dateRangeQuery);
         }
 
+        if (query.date && !isNaN(query.date.$gte.getTime()) && !isNaN(query.date.$lte.getTime())) {
+            await AppointmentSeriesService.materializeRange(query.date.$gte, query.date.$lte);
+        }
+
+        if (params.status) {
+            Object.assign(query, buildStatusQuery(parseStatuses(params.status)));
+        }
+
+        if (params.seriesId) {
+            query.seriesId = params.seriesId;
+        }
+
+        if (params.practitionerId) {
+            query.practitionerId = params.practitionerId;
+        }
+
+        if (params.roomId) {
+            query.roomId = params.roomId;
+        }
+
+        if (params.planId) {
+            query.planId = params.planId;
+        }
+
         const appointments = await appointmentsCollection.find(query).sort({ date: 1 }).toArray();
         return appointments.map(serializeAppointment);
     }
 
+    /**
+     * Get which of the given calendar event UIDs have already been imported
+     */
+    static async getImportedSourceUids(uids: string[]): Promise<string[]> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        return await appointmentsCollection.distinct('sourceUid', { sourceUid: { $in: uids } }) as string[];
+    }
+
     /**
      * Get appointment by ID
      */
@@ -78,15 +269,51 @@ export class AppointmentService {
 
         validateRequiredFields(data, ['patientId', 'date']);
 
+        const patientId = Number(data.patientId);
+        const date = new Date(data.date);
+        const duration = resolveDuration(date, data.duration, data.endDate) ?? DEFAULT_APPOINTMENT_DURATION;
+        validateSchedule(date, duration);
+        await this.assertPatientExists(patientId);
+        await PractitionerService.assertAssignable(data.practitionerId);
+        await RoomService.assertAssignable(data.roomId);
+        await TreatmentPlanService.assertAttachable(data.planId, patientId);
+
+        const practitionerId = data.practitionerId ?? null;
+        const roomId = data.roomId ?? null;
+
+        // Only a JSON true skips a check, so strings such as "false" keep it on
+        if (data.allowOutsideHours !== true) {
+            await ScheduleService.assertWithinWorkingHours({ date, duration });
+        }
+        if (data.allowOverlap !== true) {
+            await this.assertNoConflicts({ patientId, date, duration, practitionerId, roomId });
+        }
+
         const now = new Date();
         const newAppointment: Omit<Appointment, '_id'> = {
-            patientId: Number(data.patientId),
-            date: new Date(data.date),
+            patientId,
+            date,
+            duration,
+            endDate: getAppointmentEnd({ date, duration }),
+            status: 'scheduled',
+            practitionerId,
+            roomId,
             createdAt: now,
             updatedAt: now
         };
+        if (data.sourceUid !== undefined) newAppointment.sourceUid = data.sourceUid;
+        if (data.planId) newAppointment.planId = data.planId;
 
-        const result = await appointmentsCollection.insertOne(newAppointment);
+        let result;
+        try {
+            result = await appointmentsCollection.insertOne(newAppointment);
+        } catch (error) {
+            // A concurrent import created an appointment from the same calendar event
+            if (getDuplicateKeyField(error) === 'sourceUid') {
+                throw new HTTPError('Calendar event has already been imported', 409, 'Conflict');
+            }
+            throw error;
+        }
         const createdAppointment = await appointmentsCollection.findOne({ _id: result.insertedId });
 
         if (!createdAppointment) {
@@ -104,6 +331,12 @@ export class AppointmentService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
+        const existingAppointment = await appointmentsCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!existingAppointment) {
+            throw new HTTPError('Appointment not found', 404, 'Not Found');
+        }
+
         const updateData: Partial<Appointment> = {
             updatedAt: new Date()
         };
@@ -111,6 +344,55 @@ export class AppointmentService {
         if (data.patientId !== undefined) updateData.patientId = Number(data.patientId);
         if (data.date !== undefined) updateData.date = new Date(data.date);
 
+        const duration = resolveDuration(updateData.date ?? existingAppointment.date, data.duration, data.endDate);
+        if (duration !== undefined) updateData.duration = duration;
+
+        if (data.practitionerId !== undefined) {
+            await PractitionerService.assertAssignable(data.practitionerId);
+            updateData.practitionerId = data.practitionerId;
+        }
+        if (data.roomId !== undefined) {
+            await RoomService.assertAssignable(data.roomId);
+            updateData.roomId = data.roomId;
+        }
+
+        if (updateData.patientId !== undefined) {
+            await this.assertPatientExists(updateData.patientId);
+        }
+        // The plan must belong to the patient, also when only the patient changes
+        if (data.planId !== undefined || updateData.patientId !== undefined) {
+            const planId = data.planId !== undefined ? data.planId : existingAppointment.planId;
+            await TreatmentPlanService.assertAttachable(planId, updateData.patientId ?? existingAppointment.patientId);
+            if (data.planId !== undefined) updateData.planId = data.planId || null;
+        }
+
+        // Re-check the slot only when the schedule, the patient or the booked resources change
+        const rescheduled = updateData.date !== undefined || updateData.duration !== undefined;
+        const rebooked = updateData.patientId !== undefined || updateData.practitionerId !== undefined || updateData.roomId !== undefined;
+        if (rescheduled || rebooked) {
+            const status = existingAppointment.status ?? 'scheduled';
+            if (STATUS_TRANSITIONS[status].length === 0) {
+                throw new HTTPError(`Cannot reschedule a ${status} appointment`, 409, 'Conflict');
+            }
+
+            const schedule = { ...existingAppointment, ...updateData };
+            validateSchedule(new Date(schedule.date), schedule.duration ?? DEFAULT_APPOINTMENT_DURATION);
+            updateData.endDate = getAppointmentEnd(schedule);
+
+            if (rescheduled && data.allowOutsideHours !== true) {
+                await ScheduleService.assertWithinWorkingHours(schedule);
+            }
+
+            if (data.allowOverlap !== true) {
+                await this.assertNoConflicts(schedule, existingAppointment._id);
+            }
+        }
+
+        // A moved appointment gets its reminders again for the new date
+        if (updateData.date !== undefined && updateData.date.getTime() !== new Date(existingAppointment.date).getTime()) {
+            updateData.reminderClaims = [];
+        }
+
         const result = await appointmentsCollection.findOneAndUpdate(
             buildObjectIdQuery(id) as any,
             { $set: updateData },
@@ -124,6 +406,210 @@ export class AppointmentService {
         return serializeAppointment(result);
     }
 
+    /**
+     * Confirm a scheduled appointment
+     */
+    static async confirmAppointment(id: string): Promise<SerializedAppointment> {
+        return await this.transitionAppointment(id, 'confirmed');
+    }
+
+    /**
+     * Cancel an appointment, recording the reason
+     */
+    static async cancelAppointment(id: string, data: CancelAppointmentRequest = {}): Promise<SerializedAppointment> {
+        const appointment = await this.transitionAppointment(id, 'cancelled', { cancellationReason: data.reason });
+        await this.offerToWaitlist(appointment);
+        return appointment;
+    }
+
+    /**
+     * Mark an appointment as missed by the patient
+     */
+    static async markNoShow(id: string): Promise<SerializedAppointment> {
+        return await this.transitionAppointment(id, 'no-show');
+    }
+
+    /**
+     * Mark an appointment as completed, recording the visit as a linked treatment
+     * dated and assigned like the appointment
+     */
+    static async completeAppointment(
+        id: string,
+        data: CompleteAppointmentRequest = {},
+        files: File[] = []
+    ): Promise<CompletedAppointment> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const existingAppointment = await appointmentsCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!existingAppointment) {
+            throw new HTTPError('Appointment not found', 404, 'Not Found');
+        }
+
+        const status = existingAppointment.status ?? 'scheduled';
+        if (!STATUS_TRANSITIONS[status].includes('completed')) {
+            throw new HTTPError(`Cannot change appointment status from ${status} to completed`, 409, 'Conflict');
+        }
+
+        const uploaded = await TreatmentService.saveAttachments(files);
+        let treatment;
+        try {
+            treatment = await TreatmentService.createTreatment({
+                patientId: existingAppointment.patientId,
+                date: existingAppointment.date,
+                content: data.content,
+                attachemnts: [...(data.attachemnts || []), ...uploaded],
+                practitionerId: data.practitionerId !== undefined ? data.practitionerId : existingAppointment.practitionerId,
+                roomId: data.roomId !== undefined ? data.roomId : existingAppointment.roomId,
+                bodyRegions: data.bodyRegions,
+                vasScore: data.vasScore,
+                techniques: data.techniques,
+                sessionDuration: data.sessionDuration,
+                soap: data.soap,
+                planId: existingAppointment.planId,
+                appointmentId: existingAppointment._id!.toString()
+            });
+        } catch (error) {
+            await deleteAttachmentFiles(uploaded);
+            throw error;
+        }
+
+        try {
+            const appointment = await this.transitionAppointment(id, 'completed', { treatmentId: treatment.id });
+            return { appointment, treatment };
+        } catch (error) {
+            // Completed concurrently: do not leave an orphan treatment behind
+            await TreatmentService.deleteTreatment(treatment.id.toString());
+            throw error;
+        }
+    }
+
+    /**
+     * Remove the link to a deleted treatment from the appointment it was recorded for
+     */
+    static async unlinkTreatment(appointmentId: string, treatmentId: number): Promise<void> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        await appointmentsCollection.updateOne(
+            { ...buildObjectIdQuery(appointmentId), treatmentId } as any,
+            { $unset: { treatmentId: '' } }
+        );
+    }
+
+    /**
+     * Move an appointment to a new status, enforcing the allowed transitions
+     */
+    private static async transitionAppointment(
+        id: string,
+        to: AppointmentStatus,
+        extra: Partial<Appointment> = {}
+    ): Promise<SerializedAppointment> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const allowedFrom = APPOINTMENT_STATUSES.filter(status => STATUS_TRANSITIONS[status].includes(to));
+        const now = new Date();
+        const updateData: Partial<Appointment> = {
+            status: to,
+            updatedAt: now
+        };
+
+        const timestampField = STATUS_TIMESTAMPS[to];
+        if (timestampField) (updateData as any)[timestampField] = now;
+        for (const [key, value] of Object.entries(extra)) {
+            if (value !== undefined) (updateData as any)[key] = value;
+        }
+
+        // Match on the current status as well, so concurrent transitions cannot both succeed
+        const result = await appointmentsCollection.findOneAndUpdate(
+            { $and: [buildObjectIdQuery(id), buildStatusQuery(allowedFrom)] } as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            const existingAppointment = await appointmentsCollection.findOne(buildObjectIdQuery(id) as any);
+            if (!existingAppointment) {
+                throw new HTTPError('Appointment not found', 404, 'Not Found');
+            }
+
+            const status = existingAppointment.status ?? 'scheduled';
+            throw new HTTPError(`Cannot change appointment status from ${status} to ${to}`, 409, 'Conflict');
+        }
+
+        return serializeAppointment(result);
+    }
+
+    /**
+     * Find appointments blocking the given time slot (see blocksSlot)
+     */
+    static async findConflicts(
+        slot: ConflictSlot,
+        excludeId?: Appointment['_id']
+    ): Promise<SerializedAppointment[]> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query = buildOverlapQuery(new Date(slot.date), getAppointmentEnd(slot));
+        if (excludeId) {
+            query._id = { $ne: excludeId };
+        }
+
+        const candidates = await appointmentsCollection.find(query).sort({ date: 1 }).toArray();
+        return candidates
+            .filter(candidate => blocksSlot(slot, candidate))
+            .map(serializeAppointment);
+    }
+
+    /**
+     * Find the appointments occupying any part of a time range, including those of deleted
+     * patients, so that free slots are computed the same way as conflicts
+     */
+    static async findBookedInRange(start: Date, end: Date): Promise<SerializedAppointment[]> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        await AppointmentSeriesService.materializeRange(start, end);
+
+        const appointments = await appointmentsCollection.find(buildOverlapQuery(start, end)).sort({ date: 1 }).toArray();
+        return appointments.map(serializeAppointment);
+    }
+
+    /**
+     * Reject a time slot that overlaps existing appointments, listing the conflicts
+     */
+    private static async assertNoConflicts(
+        slot: ConflictSlot,
+        excludeId?: Appointment['_id']
+    ): Promise<void> {
+        const conflicts = await this.findConflicts(slot, excludeId);
+
+        if (conflicts.length > 0) {
+            throw new HTTPError(
+                'The requested time slot overlaps existing appointments. Set allowOverlap to book it anyway.',
+                409,
+                'Conflict',
+                { conflicts }
+            );
+        }
+    }
+
+    /**
+     * Reject appointments for patients that do not exist
+     */
+    private static async assertPatientExists(patientId: number): Promise<void> {
+        if (isNaN(patientId) || !(await PatientService.patientExists(patientId))) {
+            assertNoFieldErrors([{ field: 'patientId', message: `Patient ${patientId} does not exist` }]);
+        }
+    }
+
     /**
      * Delete an appointment
      */
@@ -137,6 +623,32 @@ export class AppointmentService {
         if (!result) {
             throw new HTTPError('Appointment not found', 404, 'Not Found');
         }
+
+        // Keep the series from materializing the deleted occurrence again
+        if (result.seriesId && result.originalDate) {
+            await AppointmentSeriesService.excludeOccurrence(result.seriesId, result.originalDate);
+        }
+
+        // The treatment recorded for the visit is kept
+        if (result.treatmentId !== undefined) {
+            await TreatmentService.unlinkAppointment(result.treatmentId, result._id!.toString());
+        }
+
+        if (!FREED_STATUSES.includes(result.status ?? 'scheduled')) {
+            await this.offerToWaitlist(serializeAppointment(result));
+        }
+    }
+
+    /**
+     * Offer a freed slot to the waitlist. The slot is already freed, so a failure
+     * here is logged rather than failing the cancellation.
+     */
+    static async offerToWaitlist(appointment: SerializedAppointment): Promise<void> {
+        try {
+            await WaitlistService.offerFreedSlot(appointment);
+        } catch (error) {
+            console.error('Error offering freed slot to the waitlist:', error);
+        }
     }
 }
 
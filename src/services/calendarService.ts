@@ -0,0 +1,219 @@
+import { createHash, randomBytes } from 'crypto';
+import { calendarFeedsCollection } from '../database';
+import { CalendarFeed, CalendarFeedScope, AppointmentStatus } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { buildCalendar, CalendarEvent, CalendarEventStatus } from '../utils/ical';
+import { AppointmentService } from './appointmentService';
+import { PatientService } from './patientService';
+import { PractitionerService } from './practitionerService';
+import { RoomService } from './roomService';
+import {
+    CALENDAR_FEED_SCOPES,
+    CreateCalendarFeedRequest,
+    SerializedCalendarFeed,
+    CreatedCalendarFeed,
+    CalendarExport
+} from '../types/calendar';
+
+/**
+ * Serialize calendar feed for API response (convert _id to id as string, never expose the token hash)
+ */
+function serializeFeed(feed: CalendarFeed): SerializedCalendarFeed {
+    const { _id, tokenHash, ...rest } = feed;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Hash a feed access token for storage and lookup
+ */
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Feeds cover appointments from this many days ago...
+ */
+const FEED_PAST_DAYS = 30;
+
+/**
+ * ...up to this many days ahead
+ */
+const FEED_FUTURE_DAYS = 365;
+
+/**
+ * iCalendar status of each appointment status
+ */
+const EVENT_STATUSES: Record<AppointmentStatus, CalendarEventStatus> = {
+    'scheduled': 'TENTATIVE',
+    'confirmed': 'CONFIRMED',
+    'cancelled': 'CANCELLED',
+    'no-show': 'CONFIRMED',
+    'completed': 'CONFIRMED'
+};
+
+/**
+ * Service for token-protected iCalendar subscriptions to the appointment schedule
+ */
+export class CalendarService {
+    /**
+     * Get all calendar feeds, newest first
+     */
+    static async getFeeds(): Promise<SerializedCalendarFeed[]> {
+        if (!calendarFeedsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const feeds = await calendarFeedsCollection.find({}).sort({ createdAt: -1 }).toArray();
+        return feeds.map(serializeFeed);
+    }
+
+    /**
+     * Create a calendar feed and return its access token. Only a hash of the token is stored,
+     * so it cannot be shown again.
+     */
+    static async createFeed(data: CreateCalendarFeedRequest): Promise<CreatedCalendarFeed> {
+        if (!calendarFeedsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['scope']);
+        if (!CALENDAR_FEED_SCOPES.includes(data.scope)) {
+            throw new HTTPError(
+                `Invalid scope: must be one of ${CALENDAR_FEED_SCOPES.join(', ')}`,
+                400,
+                'Validation Error'
+            );
+        }
+
+        const token = randomBytes(32).toString('hex');
+        const newFeed: Omit<CalendarFeed, '_id'> = {
+            scope: data.scope,
+            tokenHash: hashToken(token),
+            createdAt: new Date()
+        };
+        if (data.label !== undefined) newFeed.label = data.label;
+
+        if (data.scope === 'patient') {
+            const patientId = Number(data.patientId);
+            if (isNaN(patientId) || !(await PatientService.patientExists(patientId))) {
+                assertNoFieldErrors([{ field: 'patientId', message: `Patient ${data.patientId} does not exist` }]);
+            }
+            newFeed.patientId = patientId;
+        }
+
+        if (data.scope === 'practitioner') {
+            if (!data.practitionerId) {
+                assertNoFieldErrors([{ field: 'practitionerId', message: 'Practitioner is required for practitioner feeds' }]);
+            }
+            await PractitionerService.assertAssignable(data.practitionerId);
+            newFeed.practitionerId = data.practitionerId;
+        }
+
+        const result = await calendarFeedsCollection.insertOne(newFeed);
+        return {
+            feed: serializeFeed({ ...newFeed, _id: result.insertedId }),
+            token,
+            url: `/api/calendar/feed.ics?token=${token}`
+        };
+    }
+
+    /**
+     * Revoke a calendar feed; subscribed calendars stop receiving updates
+     */
+    static async revokeFeed(id: string): Promise<SerializedCalendarFeed> {
+        if (!calendarFeedsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const result = await calendarFeedsCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), revokedAt: { $exists: false } } as any,
+            { $set: { revokedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Active calendar feed not found', 404, 'Not Found');
+        }
+
+        return serializeFeed(result);
+    }
+
+    /**
+     * Render the iCalendar document of the feed identified by an access token
+     */
+    static async renderFeed(token: string | undefined): Promise<CalendarExport> {
+        if (!calendarFeedsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const feed = token
+            ? await calendarFeedsCollection.findOneAndUpdate(
+                { tokenHash: hashToken(token), revokedAt: { $exists: false } },
+                { $set: { lastAccessedAt: new Date() } },
+                { returnDocument: 'after' }
+            )
+            : null;
+
+        if (!feed) {
+            throw new HTTPError('Invalid or revoked calendar token', 401, 'Unauthorized');
+        }
+
+        const now = Date.now();
+        const appointments = await AppointmentService.getAllAppointments({
+            startDate: new Date(now - FEED_PAST_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+            endDate: new Date(now + FEED_FUTURE_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+            patientId: feed.patientId !== undefined ? String(feed.patientId) : undefined,
+            practitionerId: feed.practitionerId
+        });
+
+        const [patients, practitioners, rooms] = await Promise.all([
+            PatientService.getPatientsByIds(Array.from(new Set(appointments.map(appointment => appointment.patientId)))),
+            PractitionerService.getAllPractitioners(),
+            RoomService.getAllRooms()
+        ]);
+        const patientNames = new Map(patients.map(patient => [patient.id, `${patient.name} ${patient.surname}`]));
+        const practitionerNames = new Map(practitioners.map(practitioner => [practitioner.id, `${practitioner.name} ${practitioner.surname}`]));
+        const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+
+        const events: CalendarEvent[] = appointments.map(appointment => {
+            const patientName = patientNames.get(appointment.patientId) || `Patient ${appointment.patientId}`;
+            const practitionerName = appointment.practitionerId ? practitionerNames.get(appointment.practitionerId) : undefined;
+            const createdAt = appointment.createdAt ? new Date(appointment.createdAt) : undefined;
+            const updatedAt = appointment.updatedAt ? new Date(appointment.updatedAt) : undefined;
+
+            return {
+                // ObjectIds never change, so calendars update events in place instead of duplicating them
+                uid: `${appointment.id}@senob`,
+                start: new Date(appointment.date),
+                end: new Date(appointment.endDate!),
+                summary: feed.scope === 'patient'
+                    ? `Appointment${practitionerName ? ` with ${practitionerName}` : ''}`
+                    : `${patientName}${practitionerName && feed.scope === 'clinic' ? ` (${practitionerName})` : ''}`,
+                description: appointment.cancellationReason ? `Cancelled: ${appointment.cancellationReason}` : undefined,
+                location: appointment.roomId ? roomNames.get(appointment.roomId) : undefined,
+                status: EVENT_STATUSES[appointment.status ?? 'scheduled'],
+                // Increases with every change, as required for subscribers to pick up updates
+                sequence: createdAt && updatedAt ? Math.max(0, Math.floor((updatedAt.getTime() - createdAt.getTime()) / 1000)) : 0,
+                created: createdAt,
+                lastModified: updatedAt
+            };
+        });
+
+        return {
+            fileName: `${this.getFeedName(feed.scope, feed.patientId ?? feed.practitionerId).toLowerCase().replace(/\s+/g, '-')}.ics`,
+            content: buildCalendar({ name: feed.label || this.getFeedName(feed.scope, feed.patientId ?? feed.practitionerId), events })
+        };
+    }
+
+    /**
+     * Default display name of a feed
+     */
+    private static getFeedName(scope: CalendarFeedScope, subject?: string | number): string {
+        return scope === 'clinic' ? 'Clinic appointments' : `Appointments ${scope} ${subject}`;
+    }
+}
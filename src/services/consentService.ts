@@ -0,0 +1,293 @@
+import { consentTemplatesCollection, consentsCollection } from '../database';
+import { ConsentTemplate, ConsentRecord, ConsentType } from '../models';
+import { HTTPError, getDuplicateKeyField } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { saveFile } from '../utils/fileHandler';
+import { PatientService } from './patientService';
+import {
+    CONSENT_TYPES,
+    CreateConsentTemplateRequest,
+    GrantConsentRequest,
+    RevokeConsentRequest,
+    ConsentState
+} from '../types/consent';
+
+/**
+ * Serialized consent template type for API responses (only id, no _id)
+ */
+export type SerializedConsentTemplate = Omit<ConsentTemplate, '_id'> & { id: string };
+
+/**
+ * Serialized consent record type for API responses (only id, no _id)
+ */
+export type SerializedConsentRecord = Omit<ConsentRecord, '_id'> & { id: string };
+
+/**
+ * Serialize consent template for API response (convert _id to id as string, remove _id)
+ */
+function serializeTemplate(template: ConsentTemplate): SerializedConsentTemplate {
+    const { _id, ...rest } = template;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Serialize consent record for API response (convert _id to id as string, remove _id)
+ */
+function serializeRecord(record: ConsentRecord): SerializedConsentRecord {
+    const { _id, ...rest } = record;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Ensure a value is a known consent type
+ */
+function validateConsentType(type: string): ConsentType {
+    if (!CONSENT_TYPES.includes(type as ConsentType)) {
+        throw new HTTPError(
+            `Invalid consent type: must be one of ${CONSENT_TYPES.join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+    return type as ConsentType;
+}
+
+/**
+ * Service for consent templates and per-patient consent records
+ */
+export class ConsentService {
+    /**
+     * Get consent templates, optionally filtered by type, newest version first
+     */
+    static async getTemplates(type?: string): Promise<SerializedConsentTemplate[]> {
+        if (!consentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query = type ? { type: validateConsentType(type) } : {};
+        const templates = await consentTemplatesCollection.find(query).sort({ type: 1, version: -1 }).toArray();
+        return templates.map(serializeTemplate);
+    }
+
+    /**
+     * Get consent template by ID
+     */
+    static async getTemplateById(id: string): Promise<SerializedConsentTemplate> {
+        if (!consentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const template = await consentTemplatesCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!template) {
+            throw new HTTPError('Consent template not found', 404, 'Not Found');
+        }
+
+        return serializeTemplate(template);
+    }
+
+    /**
+     * Publish a new consent template version; versions are numbered per type
+     */
+    static async createTemplate(data: CreateConsentTemplateRequest): Promise<SerializedConsentTemplate> {
+        if (!consentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['type', 'title', 'content']);
+        const type = validateConsentType(data.type);
+
+        const latestVersion = await this.getLatestVersion(type);
+        const newTemplate: Omit<ConsentTemplate, '_id'> = {
+            type,
+            version: (latestVersion ?? 0) + 1,
+            title: data.title,
+            content: data.content,
+            createdAt: new Date()
+        };
+
+        let result;
+        try {
+            result = await consentTemplatesCollection.insertOne(newTemplate);
+        } catch (error) {
+            // Another request published the same version in the meantime
+            if (getDuplicateKeyField(error) !== null) {
+                throw new HTTPError(`Consent template version ${newTemplate.version} for ${type} already exists`, 409, 'Conflict');
+            }
+            throw error;
+        }
+        return serializeTemplate({ ...newTemplate, _id: result.insertedId });
+    }
+
+    /**
+     * Get the current consent state of a patient for every consent type
+     */
+    static async getPatientConsentState(patientId: string): Promise<ConsentState[]> {
+        const patient = await PatientService.getPatientById(patientId);
+
+        const states: ConsentState[] = [];
+        for (const type of CONSENT_TYPES) {
+            const [record, latestVersion] = await Promise.all([
+                this.getLatestRecord(patient.id, type),
+                this.getLatestVersion(type)
+            ]);
+
+            const status = !record ? 'missing' : record.revokedAt ? 'revoked' : 'granted';
+            states.push({
+                type,
+                status,
+                version: record?.version ?? null,
+                latestVersion,
+                upToDate: status === 'granted' && record?.version === latestVersion,
+                grantedAt: record?.grantedAt ?? null,
+                revokedAt: record?.revokedAt ?? null,
+                consentId: record?._id?.toString() ?? null
+            });
+        }
+
+        return states;
+    }
+
+    /**
+     * Get every consent record of a patient, newest first
+     */
+    static async getPatientConsentHistory(patientId: string): Promise<SerializedConsentRecord[]> {
+        if (!consentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const patient = await PatientService.getPatientById(patientId);
+        const records = await consentsCollection.find({ patientId: patient.id }).sort({ grantedAt: -1 }).toArray();
+        return records.map(serializeRecord);
+    }
+
+    /**
+     * Record that a patient granted a consent, optionally with the signed document
+     */
+    static async grantConsent(patientId: string, data: GrantConsentRequest, document?: File): Promise<SerializedConsentRecord> {
+        if (!consentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['type']);
+        const type = validateConsentType(data.type);
+        const patient = await PatientService.getPatientById(patientId);
+
+        const latestVersion = await this.getLatestVersion(type);
+        if (latestVersion === null) {
+            throw new HTTPError(`No consent template published for type ${type}`, 400, 'Validation Error');
+        }
+
+        const version = data.version !== undefined ? Number(data.version) : latestVersion;
+        if (!Number.isInteger(version) || version < 1 || version > latestVersion) {
+            throw new HTTPError(`Invalid consent version: ${data.version}`, 400, 'Validation Error');
+        }
+
+        const now = new Date();
+        const grantedAt = data.grantedAt ? new Date(data.grantedAt) : now;
+        if (isNaN(grantedAt.getTime())) {
+            assertNoFieldErrors([{ field: 'grantedAt', message: 'Grant date is not a valid date' }]);
+        }
+        if (grantedAt > now) {
+            assertNoFieldErrors([{ field: 'grantedAt', message: 'Grant date cannot be in the future' }]);
+        }
+
+        const newRecord: Omit<ConsentRecord, '_id'> = {
+            patientId: patient.id,
+            type,
+            version,
+            grantedAt,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        if (document) {
+            const { fileName, filePath } = await saveFile(document);
+            newRecord.document = {
+                type: 'file',
+                data: fileName,
+                path: filePath,
+                originalName: document.name
+            };
+        }
+
+        const result = await consentsCollection.insertOne(newRecord);
+        return serializeRecord({ ...newRecord, _id: result.insertedId });
+    }
+
+    /**
+     * Revoke a previously granted consent
+     */
+    static async revokeConsent(consentId: string, data: RevokeConsentRequest = {}): Promise<SerializedConsentRecord> {
+        if (!consentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        const updateData: Partial<ConsentRecord> = {
+            revokedAt: now,
+            updatedAt: now
+        };
+        if (data.reason !== undefined) updateData.revocationReason = data.reason;
+
+        const result = await consentsCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(consentId), revokedAt: { $exists: false } } as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Active consent not found', 404, 'Not Found');
+        }
+
+        return serializeRecord(result);
+    }
+
+    /**
+     * Check whether a patient currently holds a granted consent of the given type
+     */
+    static async hasConsent(patientId: number, type: ConsentType): Promise<boolean> {
+        const record = await this.getLatestRecord(patientId, type);
+        return !!record && !record.revokedAt;
+    }
+
+    /**
+     * Reject processing for patients that have not granted the given consent
+     */
+    static async assertConsent(patientId: number, type: ConsentType): Promise<void> {
+        if (!(await this.hasConsent(patientId, type))) {
+            throw new HTTPError(`Patient has not granted ${type} consent`, 403, 'Forbidden');
+        }
+    }
+
+    /**
+     * Get the most recently recorded consent record of a type for a patient. Records are ordered
+     * by when they were entered, so a backdated grant still supersedes an earlier revocation.
+     */
+    private static async getLatestRecord(patientId: number, type: ConsentType): Promise<ConsentRecord | null> {
+        if (!consentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        return await consentsCollection.findOne({ patientId, type }, { sort: { createdAt: -1, _id: -1 } });
+    }
+
+    /**
+     * Get the latest published template version for a consent type
+     */
+    private static async getLatestVersion(type: ConsentType): Promise<number | null> {
+        if (!consentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const template = await consentTemplatesCollection.findOne({ type }, { sort: { version: -1 } });
+        return template?.version ?? null;
+    }
+}
@@ -0,0 +1,111 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { basename } from 'path';
+import { PatientService } from './patientService';
+import { TreatmentService } from './treatmentService';
+import { AppointmentService } from './appointmentService';
+import { AiSummaryService } from './aiSummaryService';
+import { ConsentService } from './consentService';
+import { TreatmentPlanService } from './treatmentPlanService';
+import { normalizeAttachments } from '../utils/fileHandler';
+import { createZip, ZipEntry } from '../utils/zip';
+import { PatientExport, ExportManifest } from '../types/export';
+
+/**
+ * Serialize a value as pretty-printed JSON for inclusion in an export
+ */
+function toJsonBuffer(value: unknown): Buffer {
+    return Buffer.from(JSON.stringify(value, null, 2), 'utf8');
+}
+
+/**
+ * Compute the SHA-256 checksum of a buffer as a hex string
+ */
+function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Service for producing data subject access exports (GDPR art. 15)
+ */
+export class ExportService {
+    /**
+     * Build a ZIP archive with everything stored about a patient, including attachment files
+     * and a manifest of SHA-256 checksums
+     */
+    static async exportPatient(id: string): Promise<PatientExport> {
+        const patient = await PatientService.getPatientById(id);
+        const patientId = String(patient.id);
+
+        const [treatments, appointments, treatmentPlans, aiSummaries, consents] = await Promise.all([
+            TreatmentService.getAllTreatments({ patientId }),
+            AppointmentService.getAllAppointments({ patientId }),
+            TreatmentPlanService.getPlans({ patientId }),
+            AiSummaryService.getSummariesByPatientId(patient.id),
+            ConsentService.getPatientConsentHistory(patientId)
+        ]);
+
+        const entries: ZipEntry[] = [
+            { name: 'patient.json', data: toJsonBuffer(patient) },
+            { name: 'treatments.json', data: toJsonBuffer(treatments) },
+            { name: 'appointments.json', data: toJsonBuffer(appointments) },
+            { name: 'treatment-plans.json', data: toJsonBuffer(treatmentPlans) },
+            { name: 'ai-summaries.json', data: toJsonBuffer(aiSummaries) },
+            { name: 'consents.json', data: toJsonBuffer(consents) }
+        ];
+        const missingFiles: ExportManifest['missingFiles'] = [];
+
+        for (const treatment of treatments) {
+            for (const attachment of normalizeAttachments(treatment.attachemnts)) {
+                if (attachment.type !== 'file' || !attachment.path) continue;
+
+                if (!existsSync(attachment.path)) {
+                    missingFiles.push({ treatmentId: treatment.id, attachment: attachment.data });
+                    continue;
+                }
+
+                entries.push({
+                    // Stored file names carry a unique prefix, so they cannot clash inside the archive
+                    name: `attachments/${treatment.id}/${basename(attachment.data)}`,
+                    data: await readFile(attachment.path)
+                });
+            }
+        }
+
+        for (const consent of consents) {
+            const [document] = normalizeAttachments(consent.document ? [consent.document] : []);
+            if (!document?.path) continue;
+
+            if (!existsSync(document.path)) {
+                missingFiles.push({ consentId: consent.id, attachment: document.data });
+                continue;
+            }
+
+            entries.push({
+                name: `consents/${consent.id}/${basename(document.data)}`,
+                data: await readFile(document.path)
+            });
+        }
+
+        const generatedAt = new Date();
+        const manifest: ExportManifest = {
+            patientId: patient.id,
+            generatedAt: generatedAt.toISOString(),
+            algorithm: 'sha256',
+            files: entries.map(entry => ({
+                path: entry.name,
+                size: entry.data.length,
+                checksum: sha256(entry.data)
+            })),
+            missingFiles
+        };
+        entries.push({ name: 'manifest.json', data: toJsonBuffer(manifest) });
+
+        return {
+            fileName: `patient-${patient.id}-export-${generatedAt.toISOString().slice(0, 10)}.zip`,
+            content: createZip(entries, generatedAt),
+            manifest
+        };
+    }
+}
@@ -0,0 +1,149 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { randomBytes } from 'crypto';
+import { Patient, NotificationChannelName } from '../models';
+import { sendMail, SmtpConfig } from '../utils/smtp';
+import { CALENDAR_TIMEZONE } from '../utils/ical';
+
+export interface NotificationMessage {
+    subject: string;
+    text: string;
+}
+
+export interface DeliveryResult {
+    status: 'sent' | 'failed' | 'skipped';
+    recipient?: string;
+    providerMessageId?: string;
+    error?: string;
+}
+
+/**
+ * Format an appointment date and time as patients read them: Italian, in the clinic time zone
+ */
+export function formatAppointmentTime(date: Date): { day: string; time: string } {
+    return {
+        day: date.toLocaleDateString('it-IT', { timeZone: CALENDAR_TIMEZONE, weekday: 'long', day: 'numeric', month: 'long' }),
+        time: date.toLocaleTimeString('it-IT', { timeZone: CALENDAR_TIMEZONE, hour: '2-digit', minute: '2-digit' })
+    };
+}
+
+/**
+ * A way of reaching patients. Channels decide the recipient from the patient record.
+ */
+export interface NotificationChannel {
+    name: NotificationChannelName;
+    isConfigured(): boolean;
+    getRecipient(patient: Patient): string | undefined;
+    send(recipient: string, message: NotificationMessage): Promise<string | undefined>; // Provider message id
+}
+
+/**
+ * A text message gateway used by the SMS channel
+ */
+export interface SmsProvider {
+    name: string;
+    send(phoneNumber: string, text: string): Promise<string | undefined>; // Provider message id
+}
+
+/**
+ * Stand-in SMS provider that appends messages to a local file,
+ * for development and until a real gateway is configured
+ */
+export class FileSmsProvider implements SmsProvider {
+    name = 'file';
+
+    constructor(private filePath: string = process.env.SMS_OUTBOX_FILE || join(process.cwd(), 'sms-outbox.log')) {}
+
+    async send(phoneNumber: string, text: string): Promise<string> {
+        const id = randomBytes(8).toString('hex');
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await appendFile(this.filePath, JSON.stringify({ id, to: phoneNumber, text, sentAt: new Date() }) + '\n', 'utf8');
+        return id;
+    }
+}
+
+/**
+ * Read the SMTP settings from the environment, or null when email is not configured
+ */
+function getSmtpConfig(): SmtpConfig | null {
+    if (!process.env.SMTP_HOST || !process.env.SMTP_FROM) return null;
+
+    const secure = process.env.SMTP_SECURE === 'true';
+    return {
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.SMTP_FROM
+    };
+}
+
+const emailChannel: NotificationChannel = {
+    name: 'email',
+    isConfigured: () => getSmtpConfig() !== null,
+    getRecipient: patient => patient.email?.trim() || undefined,
+    send: async (recipient, message) => await sendMail(getSmtpConfig()!, { to: recipient, ...message })
+};
+
+let smsProvider: SmsProvider = new FileSmsProvider();
+
+const smsChannel: NotificationChannel = {
+    name: 'sms',
+    isConfigured: () => true,
+    getRecipient: patient => patient.phoneNumber?.replace(/[^\d+]/g, '') || undefined,
+    send: async (recipient, message) => await smsProvider.send(recipient, message.text)
+};
+
+const channels = new Map<NotificationChannelName, NotificationChannel>([
+    ['email', emailChannel],
+    ['sms', smsChannel]
+]);
+
+/**
+ * Service dispatching patient notifications through pluggable channels
+ */
+export class NotificationService {
+    /**
+     * Replace or add a notification channel
+     */
+    static registerChannel(channel: NotificationChannel): void {
+        channels.set(channel.name, channel);
+    }
+
+    /**
+     * Replace the SMS gateway (defaults to the file stand-in)
+     */
+    static setSmsProvider(provider: SmsProvider): void {
+        smsProvider = provider;
+    }
+
+    /**
+     * Send a message to a patient on a channel. Never throws: failures and skips are
+     * returned so every attempt can be recorded.
+     */
+    static async send(channelName: NotificationChannelName, patient: Patient, message: NotificationMessage): Promise<DeliveryResult> {
+        const channel = channels.get(channelName);
+        if (!channel) {
+            return { status: 'skipped', error: `Unknown channel ${channelName}` };
+        }
+        if (!channel.isConfigured()) {
+            return { status: 'skipped', error: `Channel ${channelName} is not configured` };
+        }
+        if (patient.reminderOptOut?.includes(channelName)) {
+            return { status: 'skipped', error: `Patient opted out of ${channelName} notifications` };
+        }
+
+        const recipient = channel.getRecipient(patient);
+        if (!recipient) {
+            return { status: 'skipped', error: `Patient has no ${channelName} contact` };
+        }
+
+        try {
+            const providerMessageId = await channel.send(recipient, message);
+            return { status: 'sent', recipient, providerMessageId };
+        } catch (error) {
+            return { status: 'failed', recipient, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
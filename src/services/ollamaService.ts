@@ -1,4 +1,5 @@
 import { HTTPError } from '../utils/errors';
+import { calculateAge } from '../utils/dateUtils';
 import { Patient, Treatment } from '../models';
 import { SerializedAppointment } from './appointmentService';
 
@@ -185,6 +186,28 @@ export class OllamaService {
         return summary;
     }
 
+    /**
+     * Build the medical history part of the prompt from the structured anamnesis,
+     * falling back to (or completing it with) the legacy free-text anamnesi
+     */
+    private static buildAnamnesisInfo(patient: Patient): string {
+        const anamnesis = patient.anamnesis;
+        const lines: string[] = [];
+
+        if (anamnesis) {
+            if (anamnesis.allergies?.length) lines.push(`  - Allergies: ${anamnesis.allergies.join(', ')}`);
+            if (anamnesis.currentMedications?.length) lines.push(`  - Current Medications: ${anamnesis.currentMedications.join(', ')}`);
+            if (anamnesis.chronicConditions?.length) lines.push(`  - Chronic Conditions: ${anamnesis.chronicConditions.join(', ')}`);
+            if (anamnesis.pastSurgeries?.length) lines.push(`  - Past Surgeries: ${anamnesis.pastSurgeries.join(', ')}`);
+            if (anamnesis.lifestyle) lines.push(`  - Lifestyle: ${anamnesis.lifestyle}`);
+        }
+        if (patient.anamnesi) lines.push(`  - Notes: ${patient.anamnesi}`);
+
+        return lines.length > 0
+            ? `- Medical History (Anamnesi):\n${lines.join('\n')}`
+            : '- Medical History (Anamnesi): Not provided';
+    }
+
     /**
      * Build a comprehensive prompt for patient summary generation
      */
@@ -193,22 +216,12 @@ export class OllamaService {
         treatments: Treatment[],
         appointments: SerializedAppointment[]
     ): string {
-        // Calculate age from date of birth
-        let age: number | null = null;
-        if (patient.dateOfBirth) {
-            const birthDate = new Date(patient.dateOfBirth);
-            const today = new Date();
-            age = today.getFullYear() - birthDate.getFullYear();
-            const monthDiff = today.getMonth() - birthDate.getMonth();
-            if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-                age--;
-            }
-        }
+        const age = patient.dateOfBirth ? calculateAge(patient.dateOfBirth) : null;
 
         const patientInfo = `
 PATIENT INFORMATION:
 ${age !== null ? `- Age: ${age} years old` : ''}
-${patient.anamnesi ? `- Medical History (Anamnesi): ${patient.anamnesi}` : '- Medical History (Anamnesi): Not provided'}
+${this.buildAnamnesisInfo(patient)}
 `;
 
         const treatmentsInfo = treatments.length > 0 ? `
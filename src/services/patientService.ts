@@ -1,22 +1,350 @@
-import { patientsCollection } from '../database';
-import { Patient } from '../models';
-import { HTTPError } from '../utils/errors';
-import { buildIdQuery } from '../utils/queryBuilder';
-import { CreatePatientRequest, UpdatePatientRequest } from '../types/patient';
+import { patientsCollection, treatmentsCollection, appointmentsCollection, appointmentSeriesCollection, treatmentPlansCollection, aiSummariesCollection, consentsCollection, waitlistCollection, waitlistOffersCollection } from '../database';
+import { Patient, PatientMergeRecord, Anamnesis, AnamnesisRevision } from '../models';
+import { HTTPError, getDuplicateKeyField } from '../utils/errors';
+import { buildIdQuery, buildTextSearchQuery } from '../utils/queryBuilder';
+import { parsePaginationParams, encodeCursor, buildCursorQuery, toSortDocument, SortSpec, SortDirection } from '../utils/pagination';
+import {
+    CreatePatientRequest,
+    UpdatePatientRequest,
+    PatientQueryParams,
+    PatientSortField,
+    PatientPurgeReport,
+    DuplicateQueryParams,
+    DuplicateCandidate,
+    DuplicateField,
+    PatientMergeResult,
+    PatientAnamnesis,
+    ReminderPreferences,
+    NOTIFICATION_CHANNELS
+} from '../types/patient';
+import { deleteAttachmentFiles } from '../utils/fileHandler';
+import { collectAttachmentFiles } from '../utils/treatmentHistory';
+import { nextSequenceValue, ensureSequenceAtLeast } from '../utils/sequence';
+import { stringSimilarity, normalizeForComparison, normalizePhoneNumber } from '../utils/similarity';
+import { emptyAnamnesis, validateAnamnesis, diffAnamnesis } from '../utils/anamnesis';
+import { PaginatedResult } from '../types/api';
+import { FieldError, assertNoFieldErrors, isValidEmail } from '../utils/validation';
+import {
+    normalizeFiscalCode,
+    hasValidFiscalCodeFormat,
+    computeCheckCharacter,
+    decodeFiscalCode,
+    computeSurnameCode,
+    computeNameCode,
+    resolveBirthYear
+} from '../utils/fiscalCode';
+import { WaitlistService } from './waitlistService';
+import { AppointmentService } from './appointmentService';
+
+/**
+ * Fields covered by the free-text patient search
+ */
+const SEARCH_FIELDS = ['name', 'surname', 'email', 'phoneNumber', 'fiscalCode'];
+
+/**
+ * Filter matching patients that have not been soft-deleted
+ */
+export const ACTIVE_PATIENT_FILTER = { deletedAt: null };
+
+/**
+ * Build a query matching a non-deleted patient by ID
+ */
+function buildActivePatientQuery(id: string) {
+    return { $and: [buildIdQuery(id), ACTIVE_PATIENT_FILTER] };
+}
+
+/**
+ * Sort keys for each supported sort field. Every sort ends with _id so cursors are unambiguous.
+ */
+const SORT_FIELDS: Record<PatientSortField, string[]> = {
+    surname: ['surname', 'name'],
+    name: ['name', 'surname'],
+    id: ['id'],
+    createdAt: ['createdAt'],
+    dateOfBirth: ['dateOfBirth']
+};
+
+/**
+ * Build the sort specification for a patient listing
+ */
+function buildPatientSort(sortBy: string | undefined, sortOrder: string | undefined): SortSpec {
+    const field = (sortBy || 'surname') as PatientSortField;
+    if (!SORT_FIELDS[field]) {
+        throw new HTTPError(
+            `Invalid sortBy: must be one of ${Object.keys(SORT_FIELDS).join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+
+    const order = (sortOrder || 'asc').toLowerCase();
+    if (order !== 'asc' && order !== 'desc') {
+        throw new HTTPError('Invalid sortOrder: must be asc or desc', 400, 'Validation Error');
+    }
+
+    const direction: SortDirection = order === 'asc' ? 1 : -1;
+    return [...SORT_FIELDS[field], '_id'].map(key => [key, direction] as [string, SortDirection]);
+}
+
+/**
+ * Identity fields that are encoded in, and must agree with, the fiscal code
+ */
+type FiscalIdentity = Pick<Patient, 'fiscalCode' | 'name' | 'surname' | 'dateOfBirth' | 'sex' | 'birthPlaceCode'>;
+
+/**
+ * Extract year, month and day from a date of birth, preferring the literal YYYY-MM-DD prefix
+ * so that timezone offsets cannot shift the day
+ */
+function getBirthDateParts(value: string): { year: number; month: number; day: number } | null {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+        return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/**
+ * Build the conflict error for an email or fiscal code registered to another patient
+ */
+function duplicateFieldError(field: string): HTTPError {
+    const message = `${field === 'email' ? 'Email' : 'Fiscal code'} already registered to another patient`;
+    return new HTTPError(message, 409, 'Conflict', { fields: [{ field, message }] });
+}
+
+/**
+ * Validate a fiscal code against the patient's identity fields.
+ * Returns field-level errors and the values that can be derived from the code for missing fields.
+ */
+function checkFiscalCode(identity: Partial<FiscalIdentity>): { errors: FieldError[]; derived: Partial<FiscalIdentity> } {
+    const errors: FieldError[] = [];
+    const fiscalCode = normalizeFiscalCode(identity.fiscalCode || '');
+
+    if (!hasValidFiscalCodeFormat(fiscalCode)) {
+        errors.push({ field: 'fiscalCode', message: 'Fiscal code has an invalid format' });
+        return { errors, derived: {} };
+    }
+
+    if (computeCheckCharacter(fiscalCode) !== fiscalCode[15]) {
+        errors.push({ field: 'fiscalCode', message: 'Fiscal code check character is wrong' });
+        return { errors, derived: {} };
+    }
+
+    const decoded = decodeFiscalCode(fiscalCode);
+    if (!decoded) {
+        errors.push({ field: 'fiscalCode', message: 'Fiscal code contains an invalid birth date' });
+        return { errors, derived: {} };
+    }
+
+    const birthYear = resolveBirthYear(decoded.birthYear);
+    const birthDate = new Date(Date.UTC(birthYear, decoded.birthMonth - 1, decoded.birthDay));
+    if (birthDate.getUTCDate() !== decoded.birthDay) {
+        errors.push({ field: 'fiscalCode', message: 'Fiscal code contains an invalid birth date' });
+        return { errors, derived: {} };
+    }
+
+    if (identity.surname !== undefined && computeSurnameCode(identity.surname) !== decoded.surnameCode) {
+        errors.push({ field: 'surname', message: 'Surname does not match the fiscal code' });
+    }
+    if (identity.name !== undefined && computeNameCode(identity.name) !== decoded.nameCode) {
+        errors.push({ field: 'name', message: 'Name does not match the fiscal code' });
+    }
+
+    const derived: Partial<FiscalIdentity> = { fiscalCode };
+
+    if (identity.dateOfBirth) {
+        const parts = getBirthDateParts(identity.dateOfBirth);
+        if (!parts) {
+            errors.push({ field: 'dateOfBirth', message: 'Date of birth is not a valid date' });
+        } else if (
+            parts.year % 100 !== decoded.birthYear ||
+            parts.month !== decoded.birthMonth ||
+            parts.day !== decoded.birthDay
+        ) {
+            errors.push({ field: 'dateOfBirth', message: 'Date of birth does not match the fiscal code' });
+        }
+    } else {
+        derived.dateOfBirth = birthDate.toISOString().slice(0, 10);
+    }
+
+    if (identity.sex) {
+        if (identity.sex !== decoded.sex) {
+            errors.push({ field: 'sex', message: 'Sex does not match the fiscal code' });
+        }
+    } else {
+        derived.sex = decoded.sex;
+    }
+
+    if (identity.birthPlaceCode) {
+        if (identity.birthPlaceCode.toUpperCase() !== decoded.birthPlaceCode) {
+            errors.push({ field: 'birthPlaceCode', message: 'Birth place does not match the fiscal code' });
+        }
+    } else {
+        derived.birthPlaceCode = decoded.birthPlaceCode;
+    }
+
+    return { errors, derived };
+}
+
+/**
+ * Apply requested anamnesis changes on top of the current values and build the revisions to record.
+ * Legacy patients without history get a baseline revision first, so their earlier text is not lost.
+ */
+function applyAnamnesisChanges(
+    existing: Pick<Patient, 'anamnesis' | 'anamnesi' | 'anamnesisHistory' | 'createdAt' | 'updatedAt'> | null,
+    data: { anamnesis?: Partial<Anamnesis>; anamnesi?: string },
+    now: Date
+): { anamnesis: Anamnesis; anamnesi: string; revisions: AnamnesisRevision[] } {
+    const { value, errors } = data.anamnesis !== undefined ? validateAnamnesis(data.anamnesis) : { value: {}, errors: [] };
+    assertNoFieldErrors(errors);
+
+    const previous: Anamnesis = { ...emptyAnamnesis(), ...existing?.anamnesis };
+    const previousText = existing?.anamnesi || '';
+    const anamnesis: Anamnesis = { ...previous, ...value };
+    const anamnesi = data.anamnesi !== undefined ? data.anamnesi : previousText;
+
+    const changedFields: AnamnesisRevision['changedFields'] = diffAnamnesis(previous, anamnesis);
+    if (anamnesi !== previousText) changedFields.push('anamnesi');
+
+    const revisions: AnamnesisRevision[] = [];
+    if (changedFields.length === 0) {
+        return { anamnesis, anamnesi, revisions };
+    }
+
+    const history = existing?.anamnesisHistory || [];
+    const hadContent = previousText !== '' || diffAnamnesis(emptyAnamnesis(), previous).length > 0;
+    if (existing && history.length === 0 && hadContent) {
+        revisions.push({
+            revision: 1,
+            changedAt: existing.updatedAt || existing.createdAt || now,
+            changedFields: previousText ? ['anamnesi'] : diffAnamnesis(emptyAnamnesis(), previous),
+            anamnesis: previous,
+            anamnesi: previousText
+        });
+    }
+
+    revisions.push({
+        revision: history.length + revisions.length + 1,
+        changedAt: now,
+        changedFields,
+        anamnesis,
+        anamnesi
+    });
+
+    return { anamnesis, anamnesi, revisions };
+}
+
+/**
+ * Relative weight of each field when scoring a pair of possible duplicates
+ */
+const DUPLICATE_WEIGHTS: Record<DuplicateField, number> = {
+    surname: 0.25,
+    name: 0.2,
+    dateOfBirth: 0.2,
+    phoneNumber: 0.15,
+    fiscalCode: 0.2
+};
+
+const DEFAULT_DUPLICATE_THRESHOLD = 0.75;
+const DEFAULT_DUPLICATE_LIMIT = 50;
+
+/**
+ * Keys used to group patients before pairwise comparison, so that only patients
+ * sharing at least one key are compared instead of every possible pair
+ */
+function getBlockingKeys(patient: Patient): string[] {
+    const keys: string[] = [];
+    const surname = normalizeForComparison(patient.surname);
+    const phone = normalizePhoneNumber(patient.phoneNumber);
+    const birthDate = patient.dateOfBirth?.slice(0, 10);
+    const fiscalCode = normalizeForComparison(patient.fiscalCode);
+
+    if (surname) keys.push(`surname:${surname.slice(0, 3)}`);
+    if (phone) keys.push(`phone:${phone}`);
+    if (birthDate) keys.push(`dob:${birthDate}`);
+    if (fiscalCode) keys.push(`cf:${fiscalCode.slice(0, 6)}`);
+
+    return keys;
+}
+
+/**
+ * Score how likely two patients are the same person (0-1), weighting only fields present on both
+ */
+function scorePatientPair(a: Patient, b: Patient): Omit<DuplicateCandidate, 'patients'> {
+    const fieldScores: Partial<Record<DuplicateField, number>> = {};
+
+    const surname = stringSimilarity(a.surname, b.surname);
+    if (surname !== null) fieldScores.surname = surname;
+
+    const name = stringSimilarity(a.name, b.name);
+    if (name !== null) fieldScores.name = name;
+
+    const birthDateA = a.dateOfBirth?.slice(0, 10);
+    const birthDateB = b.dateOfBirth?.slice(0, 10);
+    if (birthDateA && birthDateB) fieldScores.dateOfBirth = birthDateA === birthDateB ? 1 : 0;
+
+    const phone = stringSimilarity(normalizePhoneNumber(a.phoneNumber), normalizePhoneNumber(b.phoneNumber));
+    if (phone !== null) fieldScores.phoneNumber = phone;
+
+    const fiscalCode = stringSimilarity(a.fiscalCode, b.fiscalCode);
+    if (fiscalCode !== null) fieldScores.fiscalCode = fiscalCode;
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [field, value] of Object.entries(fieldScores) as [DuplicateField, number][]) {
+        weighted += DUPLICATE_WEIGHTS[field] * value;
+        totalWeight += DUPLICATE_WEIGHTS[field];
+    }
+
+    const score = totalWeight > 0 ? weighted / totalWeight : 0;
+    return { score: Math.round(score * 1000) / 1000, fieldScores };
+}
 
 /**
  * Service for patient-related business logic
  */
 export class PatientService {
     /**
-     * Get all patients
+     * Get patients with free-text search, sorting and page- or cursor-based pagination
      */
-    static async getAllPatients(): Promise<Patient[]> {
+    static async getAllPatients(params: PatientQueryParams = {}): Promise<PaginatedResult<Patient>> {
         if (!patientsCollection) {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        return await patientsCollection.find({}).toArray();
+        const { limit, page, cursor } = parsePaginationParams(params);
+        const sort = buildPatientSort(params.sortBy, params.sortOrder);
+        const filter: any = { ...buildTextSearchQuery(params.q, SEARCH_FIELDS), ...ACTIVE_PATIENT_FILTER };
+
+        const pageFilter = cursor ? { $and: [filter, buildCursorQuery(sort, cursor)] } : filter;
+        let findCursor = patientsCollection.find(pageFilter).sort(toSortDocument(sort));
+
+        if (!cursor) {
+            findCursor = findCursor.skip((page - 1) * limit);
+        }
+
+        // Fetch one extra document to know whether another page exists
+        const [documents, total] = await Promise.all([
+            findCursor.limit(limit + 1).toArray(),
+            patientsCollection.countDocuments(filter)
+        ]);
+
+        const hasMore = documents.length > limit;
+        const items = hasMore ? documents.slice(0, limit) : documents;
+        const last = items[items.length - 1];
+
+        return {
+            items,
+            pagination: {
+                total,
+                limit,
+                page: cursor ? undefined : page,
+                nextCursor: hasMore && last ? encodeCursor(last, sort) : null,
+                hasMore
+            }
+        };
     }
 
     /**
@@ -27,7 +355,7 @@ export class PatientService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        const patient = await patientsCollection.findOne(buildIdQuery(id) as any);
+        const patient = await patientsCollection.findOne(buildActivePatientQuery(id) as any);
 
         if (!patient) {
             throw new HTTPError('Patient not found', 404, 'Not Found');
@@ -36,6 +364,51 @@ export class PatientService {
         return patient;
     }
 
+    /**
+     * Check whether an active (not soft-deleted) patient with the given numeric ID exists
+     */
+    static async patientExists(id: number): Promise<boolean> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const count = await patientsCollection.countDocuments({ id, ...ACTIVE_PATIENT_FILTER } as any, { limit: 1 });
+        return count > 0;
+    }
+
+    /**
+     * Get every active patient, e.g. for matching imported records
+     */
+    static async getActivePatients(): Promise<Patient[]> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        return await patientsCollection.find(ACTIVE_PATIENT_FILTER as any).toArray();
+    }
+
+    /**
+     * Get the active patients with the given numeric IDs
+     */
+    static async getPatientsByIds(ids: number[]): Promise<Patient[]> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        return await patientsCollection.find({ id: { $in: ids }, ...ACTIVE_PATIENT_FILTER } as any).toArray();
+    }
+
+    /**
+     * Get the numeric IDs of all soft-deleted patients, used to hide their records from listings
+     */
+    static async getDeletedPatientIds(): Promise<number[]> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        return await patientsCollection.distinct('id', { deletedAt: { $ne: null } } as any);
+    }
+
     /**
      * Create a new patient
      */
@@ -44,29 +417,50 @@ export class PatientService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        // Check if id already exists
-        const existingPatient = await patientsCollection.findOne({ id: Number(data.id) });
-        if (existingPatient) {
-            throw new HTTPError('Patient ID already exists', 409, 'Conflict');
+        const { errors, derived } = checkFiscalCode(data);
+        if (data.email && !isValidEmail(data.email)) {
+            errors.push({ field: 'email', message: 'Email address is not valid' });
         }
+        assertNoFieldErrors(errors);
+        await this.assertFiscalCodeAvailable(derived.fiscalCode!);
+
+        const id = await this.allocatePatientId(data.id);
 
         const now = new Date();
+        const { anamnesis, anamnesi, revisions } = applyAnamnesisChanges(null, data, now);
         const newPatient: Patient = {
-            id: Number(data.id),
+            id,
             name: data.name,
             surname: data.surname,
             email: data.email,
             phoneNumber: data.phoneNumber,
-            dateOfBirth: data.dateOfBirth || new Date().toISOString(),
+            dateOfBirth: data.dateOfBirth || derived.dateOfBirth!,
+            sex: data.sex || derived.sex,
+            birthPlaceCode: data.birthPlaceCode?.toUpperCase() || derived.birthPlaceCode,
             address: data.address || '',
-            anamnesi: data.anamnesi || '',
+            anamnesi,
+            anamnesis,
+            anamnesisHistory: revisions,
             treatments: data.treatments || [],
-            fiscalCode: data.fiscalCode,
+            fiscalCode: derived.fiscalCode!,
             createdAt: now,
             updatedAt: now
         };
 
-        const result = await patientsCollection.insertOne(newPatient);
+        let result;
+        try {
+            result = await patientsCollection.insertOne(newPatient);
+        } catch (error) {
+            // Another request registered the same id, email or fiscal code in the meantime
+            const field = getDuplicateKeyField(error);
+            if (field === 'id') {
+                throw new HTTPError('Patient ID already exists', 409, 'Conflict');
+            }
+            if (field !== null) {
+                throw duplicateFieldError(field);
+            }
+            throw error;
+        }
         const createdPatient = await patientsCollection.findOne({ _id: result.insertedId });
 
         if (!createdPatient) {
@@ -84,23 +478,137 @@ export class PatientService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
+        const existingPatient = await patientsCollection.findOne(buildActivePatientQuery(id) as any);
+
+        if (!existingPatient) {
+            throw new HTTPError('Patient not found', 404, 'Not Found');
+        }
+
         const updateData: Partial<Patient> = {
             updatedAt: new Date()
         };
+        // Clearing the email or fiscal code removes it, so that patients without one never collide on its index
+        const unsetData: Record<string, ''> = {};
 
         if (data.name !== undefined) updateData.name = data.name;
         if (data.surname !== undefined) updateData.surname = data.surname;
-        if (data.email !== undefined) updateData.email = data.email;
+        if (data.email === '') {
+            unsetData.email = '';
+        } else if (data.email !== undefined) {
+            if (!isValidEmail(data.email)) {
+                assertNoFieldErrors([{ field: 'email', message: 'Email address is not valid' }]);
+            }
+            updateData.email = data.email;
+        }
         if (data.phoneNumber !== undefined) updateData.phoneNumber = data.phoneNumber;
         if (data.dateOfBirth !== undefined) updateData.dateOfBirth = data.dateOfBirth;
+        if (data.sex !== undefined) updateData.sex = data.sex;
+        if (data.birthPlaceCode !== undefined) updateData.birthPlaceCode = data.birthPlaceCode.toUpperCase();
         if (data.address !== undefined) updateData.address = data.address;
-        if (data.fiscalCode !== undefined) updateData.fiscalCode = data.fiscalCode;
-        if (data.anamnesi !== undefined) updateData.anamnesi = data.anamnesi;
+        if (data.fiscalCode === '') unsetData.fiscalCode = '';
+        else if (data.fiscalCode !== undefined) updateData.fiscalCode = data.fiscalCode;
         if (data.treatments !== undefined) updateData.treatments = data.treatments;
 
+        // Anamnesis changes are kept as revisions instead of overwriting earlier history
+        let revisions: AnamnesisRevision[] = [];
+        if (data.anamnesis !== undefined || data.anamnesi !== undefined) {
+            const changes = applyAnamnesisChanges(existingPatient, data, updateData.updatedAt!);
+            revisions = changes.revisions;
+            if (revisions.length > 0) {
+                updateData.anamnesis = changes.anamnesis;
+                updateData.anamnesi = changes.anamnesi;
+            }
+        }
+
+        // Re-validate the fiscal code whenever it or an identity field it encodes changes. Only the fields
+        // in this request are cross-checked: stored ones may predate validation or come from a wrong code.
+        const identityFields: (keyof FiscalIdentity)[] = ['fiscalCode', 'name', 'surname', 'dateOfBirth', 'sex', 'birthPlaceCode'];
+        const fiscalCode = data.fiscalCode === '' ? '' : updateData.fiscalCode ?? existingPatient.fiscalCode;
+        if (fiscalCode && identityFields.some(field => data[field] !== undefined)) {
+            const identity: Partial<FiscalIdentity> = {
+                ...Object.fromEntries(identityFields.filter(field => updateData[field] !== undefined).map(field => [field, updateData[field]])),
+                fiscalCode
+            };
+
+            const { errors, derived } = checkFiscalCode(identity);
+            assertNoFieldErrors(errors);
+            await this.assertFiscalCodeAvailable(derived.fiscalCode!, existingPatient._id);
+
+            // A new fiscal code replaces the values derived from the old one; otherwise only missing values are filled in
+            Object.assign(updateData, Object.fromEntries(Object.entries(derived).filter(([field]) =>
+                field === 'fiscalCode' || data.fiscalCode !== undefined || !existingPatient[field as keyof FiscalIdentity]
+            )));
+        }
+
+        const update: any = { $set: updateData };
+        if (Object.keys(unsetData).length > 0) {
+            update.$unset = unsetData;
+        }
+        if (revisions.length > 0) {
+            update.$push = { anamnesisHistory: { $each: revisions } };
+        }
+
+        let result;
+        try {
+            result = await patientsCollection.findOneAndUpdate(
+                buildActivePatientQuery(id) as any,
+                update,
+                { returnDocument: 'after' }
+            );
+        } catch (error) {
+            // Another patient already has the new email, or registered the fiscal code in the meantime
+            const field = getDuplicateKeyField(error);
+            if (field !== null) {
+                throw duplicateFieldError(field);
+            }
+            throw error;
+        }
+
+        if (!result) {
+            throw new HTTPError('Patient not found', 404, 'Not Found');
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the structured anamnesis of a patient with its legacy text and revision history
+     */
+    static async getAnamnesis(id: string): Promise<PatientAnamnesis> {
+        const patient = await this.getPatientById(id);
+
+        return {
+            patientId: patient.id,
+            anamnesis: { ...emptyAnamnesis(), ...patient.anamnesis },
+            anamnesi: patient.anamnesi || '',
+            history: patient.anamnesisHistory || []
+        };
+    }
+
+    /**
+     * Get the reminder channels a patient opted out of
+     */
+    static async getReminderPreferences(id: string): Promise<ReminderPreferences> {
+        const patient = await this.getPatientById(id);
+        return { patientId: patient.id, optOut: patient.reminderOptOut || [] };
+    }
+
+    /**
+     * Replace the reminder channels a patient opted out of
+     */
+    static async updateReminderPreferences(id: string, optOut: unknown): Promise<ReminderPreferences> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (!Array.isArray(optOut) || optOut.some(channel => !NOTIFICATION_CHANNELS.includes(channel))) {
+            assertNoFieldErrors([{ field: 'optOut', message: `optOut must be a list of channels: ${NOTIFICATION_CHANNELS.join(', ')}` }]);
+        }
+        const channels = NOTIFICATION_CHANNELS.filter(channel => (optOut as string[]).includes(channel));
+
         const result = await patientsCollection.findOneAndUpdate(
-            buildIdQuery(id) as any,
-            { $set: updateData },
+            buildActivePatientQuery(id) as any,
+            { $set: { reminderOptOut: channels, updatedAt: new Date() } },
             { returnDocument: 'after' }
         );
 
@@ -108,22 +616,338 @@ export class PatientService {
             throw new HTTPError('Patient not found', 404, 'Not Found');
         }
 
-        return result;
+        return { patientId: result.id, optOut: result.reminderOptOut || [] };
+    }
+
+    /**
+     * Find pairs of active patients that are likely duplicates, ranked by similarity
+     */
+    static async findDuplicates(params: DuplicateQueryParams = {}): Promise<DuplicateCandidate[]> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const threshold = params.threshold !== undefined ? Number(params.threshold) : DEFAULT_DUPLICATE_THRESHOLD;
+        if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+            throw new HTTPError('Invalid threshold: must be a number between 0 and 1', 400, 'Validation Error');
+        }
+
+        const limit = params.limit !== undefined ? Number(params.limit) : DEFAULT_DUPLICATE_LIMIT;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new HTTPError('Invalid limit: must be a positive integer', 400, 'Validation Error');
+        }
+
+        const patients = await patientsCollection.find(ACTIVE_PATIENT_FILTER as any).toArray();
+
+        const blocks = new Map<string, number[]>();
+        patients.forEach((patient, index) => {
+            for (const key of getBlockingKeys(patient)) {
+                const block = blocks.get(key) || [];
+                block.push(index);
+                blocks.set(key, block);
+            }
+        });
+
+        const compared = new Set<string>();
+        const candidates: DuplicateCandidate[] = [];
+        for (const block of Array.from(blocks.values())) {
+            for (let i = 0; i < block.length; i++) {
+                for (let j = i + 1; j < block.length; j++) {
+                    const pairKey = `${block[i]}:${block[j]}`;
+                    if (compared.has(pairKey)) continue;
+                    compared.add(pairKey);
+
+                    const a = patients[block[i]];
+                    const b = patients[block[j]];
+                    const { score, fieldScores } = scorePatientPair(a, b);
+                    if (score >= threshold) {
+                        candidates.push({ patients: [a, b], score, fieldScores });
+                    }
+                }
+            }
+        }
+
+        return candidates
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Merge a duplicate patient into a surviving patient: treatments (with their attachments),
+     * appointments, recurring series, waitlist entries and treatment plans are moved over and the duplicate is soft-deleted
+     */
+    static async mergePatients(survivorId: string, duplicateId: string): Promise<PatientMergeResult> {
+        if (!patientsCollection || !treatmentsCollection || !appointmentsCollection || !appointmentSeriesCollection || !treatmentPlansCollection || !aiSummariesCollection || !consentsCollection || !waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const survivor = await this.getPatientById(survivorId);
+        const duplicate = await this.getPatientById(duplicateId);
+
+        if (survivor.id === duplicate.id) {
+            throw new HTTPError('A patient cannot be merged into itself', 400, 'Validation Error');
+        }
+
+        const now = new Date();
+        const treatmentsResult = await treatmentsCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+        const appointmentsResult = await appointmentsCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+        await appointmentSeriesCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+        await waitlistCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+        await waitlistOffersCollection.updateMany({ patientId: duplicate.id }, { $set: { patientId: survivor.id } });
+        await treatmentPlansCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+        await aiSummariesCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id } }
+        );
+        await consentsCollection.updateMany(
+            { patientId: duplicate.id },
+            { $set: { patientId: survivor.id, updatedAt: now } }
+        );
+
+        const mergeRecord: PatientMergeRecord = {
+            patientId: duplicate.id,
+            mergedAt: now,
+            treatmentsMoved: treatmentsResult.modifiedCount,
+            appointmentsMoved: appointmentsResult.modifiedCount,
+            snapshot: {
+                name: duplicate.name,
+                surname: duplicate.surname,
+                email: duplicate.email,
+                phoneNumber: duplicate.phoneNumber,
+                dateOfBirth: duplicate.dateOfBirth,
+                fiscalCode: duplicate.fiscalCode
+            }
+        };
+
+        const patient = await patientsCollection.findOneAndUpdate(
+            { _id: survivor._id },
+            {
+                $push: {
+                    mergedFrom: mergeRecord,
+                    treatments: { $each: duplicate.treatments || [] }
+                },
+                $set: { updatedAt: now }
+            },
+            { returnDocument: 'after' }
+        );
+
+        await patientsCollection.updateOne(
+            { _id: duplicate._id },
+            { $set: { deletedAt: now, mergedInto: survivor.id, updatedAt: now } }
+        );
+
+        if (!patient) {
+            throw new HTTPError('Patient not found', 404, 'Not Found');
+        }
+
+        return {
+            patient,
+            treatmentsMoved: mergeRecord.treatmentsMoved,
+            appointmentsMoved: mergeRecord.appointmentsMoved
+        };
+    }
+
+    /**
+     * Allocate a server-assigned patient id, or accept a client-supplied one during the transition period
+     */
+    private static async allocatePatientId(requestedId?: number): Promise<number> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (requestedId === undefined || requestedId === null) {
+            return await nextSequenceValue('patients');
+        }
+
+        const id = Number(requestedId);
+        if (!Number.isInteger(id) || id < 1) {
+            assertNoFieldErrors([{ field: 'id', message: 'Patient ID must be a positive integer' }]);
+        }
+
+        const existingPatient = await patientsCollection.findOne({ id });
+        if (existingPatient) {
+            throw new HTTPError('Patient ID already exists', 409, 'Conflict');
+        }
+
+        await ensureSequenceAtLeast('patients', id);
+        return id;
     }
 
     /**
-     * Delete a patient
+     * Ensure no other patient is registered with the given fiscal code
+     */
+    private static async assertFiscalCodeAvailable(fiscalCode: string, excludeId?: Patient['_id']): Promise<void> {
+        if (!patientsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = { fiscalCode, ...ACTIVE_PATIENT_FILTER };
+        if (excludeId) {
+            query._id = { $ne: excludeId };
+        }
+
+        const existingPatient = await patientsCollection.findOne(query);
+        if (existingPatient) {
+            throw new HTTPError(
+                'Fiscal code already registered to another patient',
+                409,
+                'Conflict',
+                { fields: [{ field: 'fiscalCode', message: 'Fiscal code already registered to another patient' }] }
+            );
+        }
+    }
+
+    /**
+     * Soft-delete a patient: the record is kept but hidden from listings until restored or purged.
+     * Their recurring series end now, their upcoming appointments are cancelled and offered to the
+     * waitlist, and their waitlist entries are cancelled; a restore resumes none of them.
      */
     static async deletePatient(id: string): Promise<void> {
+        if (!patientsCollection || !appointmentsCollection || !appointmentSeriesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        const result = await patientsCollection.findOneAndUpdate(
+            buildActivePatientQuery(id) as any,
+            { $set: { deletedAt: now, updatedAt: now } }
+        );
+
+        if (!result) {
+            throw new HTTPError('Patient not found', 404, 'Not Found');
+        }
+
+        await appointmentSeriesCollection.updateMany(
+            { patientId: result.id, $or: [{ endsAt: null }, { endsAt: { $gt: now } }] },
+            { $set: { endsAt: now, updatedAt: now } }
+        );
+
+        const upcoming = await appointmentsCollection.find({
+            patientId: result.id,
+            date: { $gte: now },
+            $or: [{ status: { $in: ['scheduled', 'confirmed'] } }, { status: { $exists: false } }]
+        } as any).toArray();
+        for (const appointment of upcoming) {
+            try {
+                await AppointmentService.cancelAppointment(appointment._id!.toString(), { reason: 'Patient deleted' });
+            } catch (error) {
+                // The appointment changed status in the meantime
+                if (!(error instanceof HTTPError && error.statusCode === 409)) throw error;
+            }
+        }
+
+        await WaitlistService.cancelPatientEntries(result.id);
+    }
+
+    /**
+     * Restore a soft-deleted patient, unless their email or fiscal code now belongs to another patient
+     */
+    static async restorePatient(id: string): Promise<Patient> {
         if (!patientsCollection) {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        const result = await patientsCollection.findOneAndDelete(buildIdQuery(id) as any);
+        const deletedQuery = { $and: [buildIdQuery(id), { deletedAt: { $ne: null } }] };
+        const patient = await patientsCollection.findOne(deletedQuery as any);
+
+        if (!patient) {
+            throw new HTTPError('Deleted patient not found', 404, 'Not Found');
+        }
+
+        // Their email and fiscal code may have been registered to another patient in the meantime
+        if (patient.fiscalCode) {
+            await this.assertFiscalCodeAvailable(patient.fiscalCode, patient._id);
+        }
+        if (patient.email && await patientsCollection.findOne({ email: patient.email, ...ACTIVE_PATIENT_FILTER } as any)) {
+            throw new HTTPError(
+                'Email already registered to another patient',
+                409,
+                'Conflict',
+                { fields: [{ field: 'email', message: 'Email already registered to another patient' }] }
+            );
+        }
+
+        const result = await patientsCollection.findOneAndUpdate(
+            deletedQuery as any,
+            { $unset: { deletedAt: '' }, $set: { updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
 
         if (!result) {
+            throw new HTTPError('Deleted patient not found', 404, 'Not Found');
+        }
+
+        return result;
+    }
+
+    /**
+     * Permanently remove a patient together with their treatments, appointments, recurring series, treatment plans and attachment files.
+     * Only soft-deleted patients can be purged.
+     */
+    static async purgePatient(id: string): Promise<PatientPurgeReport> {
+        if (!patientsCollection || !treatmentsCollection || !appointmentsCollection || !appointmentSeriesCollection || !treatmentPlansCollection || !aiSummariesCollection || !consentsCollection || !waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const patient = await patientsCollection.findOne(buildIdQuery(id) as any);
+
+        if (!patient) {
             throw new HTTPError('Patient not found', 404, 'Not Found');
         }
+
+        if (!patient.deletedAt) {
+            throw new HTTPError('Patient must be deleted before being purged', 409, 'Conflict');
+        }
+
+        // Delete attachment files before the treatment documents that reference them
+        const treatments = await treatmentsCollection.find({ patientId: patient.id }).toArray();
+        let filesDeleted = 0;
+        for (const treatment of treatments) {
+            filesDeleted += await deleteAttachmentFiles(collectAttachmentFiles(treatment));
+        }
+
+        const consents = await consentsCollection.find({ patientId: patient.id }).toArray();
+        for (const consent of consents) {
+            if (consent.document) {
+                filesDeleted += await deleteAttachmentFiles([consent.document]);
+            }
+        }
+
+        const treatmentsResult = await treatmentsCollection.deleteMany({ patientId: patient.id });
+        const appointmentsResult = await appointmentsCollection.deleteMany({ patientId: patient.id });
+        const seriesResult = await appointmentSeriesCollection.deleteMany({ patientId: patient.id });
+        await waitlistOffersCollection.deleteMany({ patientId: patient.id });
+        await waitlistCollection.deleteMany({ patientId: patient.id });
+        const treatmentPlansResult = await treatmentPlansCollection.deleteMany({ patientId: patient.id });
+        const aiSummariesResult = await aiSummariesCollection.deleteMany({ patientId: patient.id });
+        const consentsResult = await consentsCollection.deleteMany({ patientId: patient.id });
+        await patientsCollection.deleteOne({ _id: patient._id });
+
+        return {
+            patientId: patient.id,
+            treatmentsDeleted: treatmentsResult.deletedCount,
+            appointmentsDeleted: appointmentsResult.deletedCount,
+            appointmentSeriesDeleted: seriesResult.deletedCount,
+            treatmentPlansDeleted: treatmentPlansResult.deletedCount,
+            aiSummariesDeleted: aiSummariesResult.deletedCount,
+            consentsDeleted: consentsResult.deletedCount,
+            filesDeleted
+        };
     }
 }
 
@@ -0,0 +1,168 @@
+import { ObjectId } from 'mongodb';
+import { practitionersCollection, appointmentsCollection, treatmentsCollection } from '../database';
+import { Practitioner } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { CreatePractitionerRequest, UpdatePractitionerRequest, PractitionerQueryParams } from '../types/practitioner';
+
+/**
+ * Serialized practitioner type for API responses (only id, no _id)
+ */
+export type SerializedPractitioner = Omit<Practitioner, '_id'> & { id: string };
+
+/**
+ * Serialize practitioner for API response (convert _id to id as string, remove _id)
+ */
+function serializePractitioner(practitioner: Practitioner): SerializedPractitioner {
+    const { _id, ...rest } = practitioner;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Service for practitioner-related business logic
+ */
+export class PractitionerService {
+    /**
+     * Get all practitioners, optionally only active or inactive ones
+     */
+    static async getAllPractitioners(params: PractitionerQueryParams = {}): Promise<SerializedPractitioner[]> {
+        if (!practitionersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.active !== undefined) {
+            query.active = params.active === 'true';
+        }
+
+        const practitioners = await practitionersCollection.find(query).sort({ surname: 1, name: 1 }).toArray();
+        return practitioners.map(serializePractitioner);
+    }
+
+    /**
+     * Get practitioner by ID
+     */
+    static async getPractitionerById(id: string): Promise<SerializedPractitioner> {
+        if (!practitionersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const practitioner = await practitionersCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!practitioner) {
+            throw new HTTPError('Practitioner not found', 404, 'Not Found');
+        }
+
+        return serializePractitioner(practitioner);
+    }
+
+    /**
+     * Create a new practitioner
+     */
+    static async createPractitioner(data: CreatePractitionerRequest): Promise<SerializedPractitioner> {
+        if (!practitionersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['name', 'surname']);
+
+        const now = new Date();
+        const newPractitioner: Omit<Practitioner, '_id'> = {
+            name: data.name,
+            surname: data.surname,
+            active: data.active ?? true,
+            createdAt: now,
+            updatedAt: now
+        };
+        if (data.email !== undefined) newPractitioner.email = data.email;
+        if (data.phoneNumber !== undefined) newPractitioner.phoneNumber = data.phoneNumber;
+        if (data.specialty !== undefined) newPractitioner.specialty = data.specialty;
+
+        const result = await practitionersCollection.insertOne(newPractitioner);
+        return serializePractitioner({ ...newPractitioner, _id: result.insertedId });
+    }
+
+    /**
+     * Update a practitioner
+     */
+    static async updatePractitioner(id: string, data: UpdatePractitionerRequest): Promise<SerializedPractitioner> {
+        if (!practitionersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const updateData: Partial<Practitioner> = {
+            updatedAt: new Date()
+        };
+
+        if (data.name !== undefined) updateData.name = data.name;
+        if (data.surname !== undefined) updateData.surname = data.surname;
+        if (data.email !== undefined) updateData.email = data.email;
+        if (data.phoneNumber !== undefined) updateData.phoneNumber = data.phoneNumber;
+        if (data.specialty !== undefined) updateData.specialty = data.specialty;
+        if (data.active !== undefined) updateData.active = Boolean(data.active);
+
+        const result = await practitionersCollection.findOneAndUpdate(
+            buildObjectIdQuery(id) as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Practitioner not found', 404, 'Not Found');
+        }
+
+        return serializePractitioner(result);
+    }
+
+    /**
+     * Delete a practitioner that is not referenced by any appointment or treatment.
+     * Practitioners with history should be deactivated instead.
+     */
+    static async deletePractitioner(id: string): Promise<void> {
+        if (!practitionersCollection || !appointmentsCollection || !treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const practitioner = await this.getPractitionerById(id);
+
+        const [appointments, treatments] = await Promise.all([
+            appointmentsCollection.countDocuments({ practitionerId: practitioner.id }),
+            treatmentsCollection.countDocuments({ practitionerId: practitioner.id })
+        ]);
+        if (appointments > 0 || treatments > 0) {
+            throw new HTTPError(
+                'Practitioner is assigned to existing appointments or treatments. Deactivate it instead.',
+                409,
+                'Conflict',
+                { appointments, treatments }
+            );
+        }
+
+        await practitionersCollection.deleteOne(buildObjectIdQuery(id) as any);
+    }
+
+    /**
+     * Reject assignments to practitioners that do not exist or are inactive
+     */
+    static async assertAssignable(id: string | null | undefined): Promise<void> {
+        if (!practitionersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (id === undefined || id === null) return;
+
+        const practitioner = ObjectId.isValid(id)
+            ? await practitionersCollection.findOne({ _id: new ObjectId(id) } as any)
+            : null;
+
+        if (!practitioner) {
+            assertNoFieldErrors([{ field: 'practitionerId', message: `Practitioner ${id} does not exist` }]);
+        } else if (!practitioner.active) {
+            assertNoFieldErrors([{ field: 'practitionerId', message: `Practitioner ${id} is not active` }]);
+        }
+    }
+}
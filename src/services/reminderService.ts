@@ -0,0 +1,191 @@
+import { appointmentsCollection } from '../database';
+import { Appointment, Patient, NotificationChannelName, ReminderDelivery } from '../models';
+import { HTTPError } from '../utils/errors';
+import { NotificationService, NotificationMessage, formatAppointmentTime } from './notificationService';
+import { PatientService } from './patientService';
+import { NOTIFICATION_CHANNELS } from '../types/patient';
+
+/**
+ * Parse a comma-separated list of reminder offsets in minutes
+ */
+function parseOffsets(value: string | undefined): number[] {
+    const offsets = (value || '1440,120')
+        .split(',')
+        .map(offset => Number(offset.trim()))
+        .filter(offset => Number.isInteger(offset) && offset > 0);
+    return Array.from(new Set(offsets)).sort((a, b) => a - b);
+}
+
+/**
+ * Minutes before each appointment at which reminders are sent (default: one day and two hours)
+ */
+export const REMINDER_OFFSETS = parseOffsets(process.env.REMINDER_OFFSETS);
+
+/**
+ * Parse a comma-separated list of reminder channels, warning about and dropping unknown ones
+ */
+function parseChannels(value: string | undefined): NotificationChannelName[] {
+    const channels = (value || 'email,sms')
+        .split(',')
+        .map(channel => channel.trim())
+        .filter(channel => channel.length > 0);
+
+    const unknown = channels.filter(channel => !NOTIFICATION_CHANNELS.includes(channel as NotificationChannelName));
+    if (unknown.length > 0) {
+        console.warn(`Ignoring unknown REMINDER_CHANNELS: ${unknown.join(', ')}. Allowed: ${NOTIFICATION_CHANNELS.join(', ')}`);
+    }
+    return Array.from(new Set(channels.filter(channel => !unknown.includes(channel)))) as NotificationChannelName[];
+}
+
+/**
+ * Channels every reminder is sent on
+ */
+const REMINDER_CHANNELS = parseChannels(process.env.REMINDER_CHANNELS);
+
+/**
+ * How often the scheduler looks for due reminders
+ */
+const POLL_INTERVAL_SECONDS = Number(process.env.REMINDER_POLL_INTERVAL) || 60;
+
+/**
+ * Failed deliveries are retried on later polls up to this many attempts
+ */
+const MAX_ATTEMPTS = 3;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Build the reminder text for an appointment
+ */
+function buildReminderMessage(appointment: Appointment, patient: Patient): NotificationMessage {
+    const { day, time } = formatAppointmentTime(new Date(appointment.date));
+    const clinic = process.env.CLINIC_NAME || 'lo studio';
+
+    return {
+        subject: `Promemoria appuntamento ${day} alle ${time}`,
+        text: `Gentile ${patient.name}, le ricordiamo l'appuntamento presso ${clinic} ${day} alle ${time}. `
+            + 'In caso di impedimento la preghiamo di avvisarci il prima possibile.'
+    };
+}
+
+/**
+ * Background scheduler sending appointment reminders at the configured offsets
+ */
+export class ReminderService {
+    /**
+     * Start polling for due reminders (disabled with REMINDERS_ENABLED=false)
+     */
+    static start(): void {
+        if (timer || process.env.REMINDERS_ENABLED === 'false') return;
+
+        const run = () => {
+            this.processDueReminders().catch(error => console.error('Error sending reminders:', error));
+        };
+        timer = setInterval(run, POLL_INTERVAL_SECONDS * 1000);
+        run();
+
+        console.log(`Reminder scheduler started: offsets ${REMINDER_OFFSETS.join(', ')} min, channels ${REMINDER_CHANNELS.join(', ')}`);
+    }
+
+    /**
+     * Stop polling
+     */
+    static stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    }
+
+    /**
+     * Send every reminder that is due and return the number of delivery attempts.
+     * Each offset and channel is claimed atomically on the appointment before sending,
+     * so overlapping runs or instances never send the same reminder twice.
+     */
+    static async processDueReminders(now: Date = new Date()): Promise<number> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+        if (running || REMINDER_OFFSETS.length === 0) return 0;
+
+        running = true;
+        try {
+            const maxOffset = REMINDER_OFFSETS[REMINDER_OFFSETS.length - 1];
+            const appointments = await appointmentsCollection.find({
+                date: { $gt: now, $lte: new Date(now.getTime() + maxOffset * 60 * 1000) },
+                $or: [{ status: { $in: ['scheduled', 'confirmed'] } }, { status: { $exists: false } }]
+            } as any).toArray();
+
+            // Patients that were deleted in the meantime are not returned; anonymised ones are not contacted
+            const patients = await PatientService.getPatientsByIds(Array.from(new Set(appointments.map(appointment => appointment.patientId))));
+            const patientsById = new Map(patients.map(patient => [patient.id, patient]));
+
+            let attempts = 0;
+            for (const appointment of appointments) {
+                const patient = patientsById.get(appointment.patientId);
+                if (!patient || patient.anonymisedAt) continue;
+
+                const minutesLeft = (new Date(appointment.date).getTime() - now.getTime()) / 60000;
+                const dueOffsets = REMINDER_OFFSETS.filter(offset => offset >= minutesLeft);
+                const [closestOffset] = dueOffsets;
+
+                for (const offset of dueOffsets) {
+                    for (const channel of REMINDER_CHANNELS) {
+                        // Reminders whose time passed before they could be sent are superseded by a closer one
+                        const delivery = offset === closestOffset
+                            ? undefined
+                            : { status: 'skipped' as const, error: 'Superseded by a closer reminder' };
+
+                        if (await this.deliver(appointment, patient, offset, channel, delivery)) {
+                            attempts++;
+                        }
+                    }
+                }
+            }
+
+            return attempts;
+        } finally {
+            running = false;
+        }
+    }
+
+    /**
+     * Claim, send and record one reminder; returns false when it was already handled
+     */
+    private static async deliver(
+        appointment: Appointment,
+        patient: Patient,
+        offset: number,
+        channel: NotificationChannelName,
+        preset?: Pick<ReminderDelivery, 'status' | 'error'>
+    ): Promise<boolean> {
+        if (!appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const claim = `${offset}:${channel}`;
+        const claimed = await appointmentsCollection.updateOne(
+            { _id: appointment._id, reminderClaims: { $ne: claim } } as any,
+            { $addToSet: { reminderClaims: claim } }
+        );
+        if (claimed.modifiedCount === 0) return false;
+
+        const result = preset ?? await NotificationService.send(channel, patient, buildReminderMessage(appointment, patient));
+        const delivery: ReminderDelivery = { offset, channel, attemptedAt: new Date(), ...result };
+
+        const previousFailures = (appointment.reminders || [])
+            .filter(attempt => attempt.offset === offset && attempt.channel === channel && attempt.status === 'failed')
+            .length;
+        const retry = delivery.status === 'failed' && previousFailures + 1 < MAX_ATTEMPTS;
+
+        await appointmentsCollection.updateOne(
+            { _id: appointment._id } as any,
+            retry
+                ? { $push: { reminders: delivery }, $pull: { reminderClaims: claim } }
+                : { $push: { reminders: delivery } }
+        );
+
+        return true;
+    }
+}
@@ -0,0 +1,180 @@
+import { ObjectId } from 'mongodb';
+import { roomsCollection, appointmentsCollection, treatmentsCollection } from '../database';
+import { Room } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { CreateRoomRequest, UpdateRoomRequest, RoomQueryParams } from '../types/room';
+
+/**
+ * Serialized room type for API responses (only id, no _id)
+ */
+export type SerializedRoom = Omit<Room, '_id'> & { id: string };
+
+/**
+ * Serialize room for API response (convert _id to id as string, remove _id)
+ */
+function serializeRoom(room: Room): SerializedRoom {
+    const { _id, ...rest } = room;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Service for room-related business logic
+ */
+export class RoomService {
+    /**
+     * Get all rooms, optionally only active or inactive ones
+     */
+    static async getAllRooms(params: RoomQueryParams = {}): Promise<SerializedRoom[]> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.active !== undefined) {
+            query.active = params.active === 'true';
+        }
+
+        const rooms = await roomsCollection.find(query).sort({ name: 1 }).toArray();
+        return rooms.map(serializeRoom);
+    }
+
+    /**
+     * Get room by ID
+     */
+    static async getRoomById(id: string): Promise<SerializedRoom> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const room = await roomsCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!room) {
+            throw new HTTPError('Room not found', 404, 'Not Found');
+        }
+
+        return serializeRoom(room);
+    }
+
+    /**
+     * Create a new room
+     */
+    static async createRoom(data: CreateRoomRequest): Promise<SerializedRoom> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['name']);
+        await this.assertNameAvailable(data.name);
+
+        const now = new Date();
+        const newRoom: Omit<Room, '_id'> = {
+            name: data.name,
+            active: data.active ?? true,
+            createdAt: now,
+            updatedAt: now
+        };
+        if (data.description !== undefined) newRoom.description = data.description;
+
+        const result = await roomsCollection.insertOne(newRoom);
+        return serializeRoom({ ...newRoom, _id: result.insertedId });
+    }
+
+    /**
+     * Update a room
+     */
+    static async updateRoom(id: string, data: UpdateRoomRequest): Promise<SerializedRoom> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const updateData: Partial<Room> = {
+            updatedAt: new Date()
+        };
+
+        if (data.name !== undefined) {
+            await this.assertNameAvailable(data.name, id);
+            updateData.name = data.name;
+        }
+        if (data.description !== undefined) updateData.description = data.description;
+        if (data.active !== undefined) updateData.active = Boolean(data.active);
+
+        const result = await roomsCollection.findOneAndUpdate(
+            buildObjectIdQuery(id) as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Room not found', 404, 'Not Found');
+        }
+
+        return serializeRoom(result);
+    }
+
+    /**
+     * Delete a room that is not referenced by any appointment or treatment.
+     * Rooms with history should be deactivated instead.
+     */
+    static async deleteRoom(id: string): Promise<void> {
+        if (!roomsCollection || !appointmentsCollection || !treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const room = await this.getRoomById(id);
+
+        const [appointments, treatments] = await Promise.all([
+            appointmentsCollection.countDocuments({ roomId: room.id }),
+            treatmentsCollection.countDocuments({ roomId: room.id })
+        ]);
+        if (appointments > 0 || treatments > 0) {
+            throw new HTTPError(
+                'Room is assigned to existing appointments or treatments. Deactivate it instead.',
+                409,
+                'Conflict',
+                { appointments, treatments }
+            );
+        }
+
+        await roomsCollection.deleteOne(buildObjectIdQuery(id) as any);
+    }
+
+    /**
+     * Reject room names already used by another room
+     */
+    private static async assertNameAvailable(name: string, excludeId?: string): Promise<void> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const existingRoom = await roomsCollection.findOne({ name });
+        if (existingRoom && existingRoom._id?.toString() !== excludeId) {
+            throw new HTTPError(`A room named ${name} already exists`, 409, 'Conflict');
+        }
+    }
+
+    /**
+     * Reject assignments to rooms that do not exist or are inactive
+     */
+    static async assertAssignable(id: string | null | undefined): Promise<void> {
+        if (!roomsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (id === undefined || id === null) return;
+
+        const room = ObjectId.isValid(id)
+            ? await roomsCollection.findOne({ _id: new ObjectId(id) } as any)
+            : null;
+
+        if (!room) {
+            assertNoFieldErrors([{ field: 'roomId', message: `Room ${id} does not exist` }]);
+        } else if (!room.active) {
+            assertNoFieldErrors([{ field: 'roomId', message: `Room ${id} is not active` }]);
+        }
+    }
+}
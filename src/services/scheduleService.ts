@@ -0,0 +1,354 @@
+import { ObjectId } from 'mongodb';
+import { workingHoursCollection, closuresCollection } from '../database';
+import { WorkingHours, ClosurePeriod, DaySchedule, Appointment } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors, FieldError } from '../utils/validation';
+import { getItalianHolidays, getItalianHoliday, toDateKey, getDayOfWeek } from '../utils/holidays';
+import { CALENDAR_TIMEZONE, getZonedParts, fromZonedTime } from '../utils/ical';
+import { AppointmentService, DEFAULT_APPOINTMENT_DURATION, getAppointmentEnd, blocksSlot, validateSchedule } from './appointmentService';
+import {
+    UpdateWorkingHoursRequest,
+    CreateClosureRequest,
+    ClosureQueryParams,
+    SlotQueryParams,
+    TimeSlot,
+    DayAvailability,
+    HolidayEntry
+} from '../types/schedule';
+
+/**
+ * Serialized closure type for API responses (only id, no _id)
+ */
+export type SerializedClosure = Omit<ClosurePeriod, '_id'> & { id: string };
+
+/**
+ * Serialize closure for API response (convert _id to id as string, remove _id)
+ */
+function serializeClosure(closure: ClosurePeriod): SerializedClosure {
+    const { _id, ...rest } = closure;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+const WORKING_HOURS_ID = 'default';
+
+const DEFAULT_DAY: DaySchedule = { open: '09:00', close: '19:00', breaks: [{ start: '13:00', end: '14:00' }] };
+
+/**
+ * Schedule used until the clinic configures its own: weekdays 9-19 with a lunch break
+ */
+const DEFAULT_WORKING_HOURS: WorkingHours = {
+    _id: WORKING_HOURS_ID,
+    weekly: [null, DEFAULT_DAY, DEFAULT_DAY, DEFAULT_DAY, DEFAULT_DAY, DEFAULT_DAY, null],
+    observeNationalHolidays: true,
+    slotInterval: 15
+};
+
+/**
+ * Parse an HH:MM time of day into minutes since midnight
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+    const match = typeof value === 'string' ? value.match(/^([01]\d|2[0-3]):([0-5]\d)$/) : null;
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Check a YYYY-MM-DD date string
+ */
+export function isDateKey(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+/**
+ * Build the instant a number of minutes after midnight of a day, in the clinic's time zone
+ */
+function atMinutes(day: Date, minutes: number): Date {
+    const parts = getZonedParts(day, CALENDAR_TIMEZONE);
+    return fromZonedTime([Number(parts.year), Number(parts.month), Number(parts.day), 0, minutes, 0], CALENDAR_TIMEZONE);
+}
+
+/**
+ * Validate a weekly schedule, one entry per weekday
+ */
+function validateWeekly(weekly: unknown): FieldError[] {
+    if (!Array.isArray(weekly) || weekly.length !== 7) {
+        return [{ field: 'weekly', message: 'Weekly schedule must have 7 entries, starting from Sunday' }];
+    }
+
+    const errors: FieldError[] = [];
+    weekly.forEach((day: DaySchedule | null, index) => {
+        if (day === null) return;
+
+        const field = `weekly[${index}]`;
+        const open = parseTimeOfDay(day?.open);
+        const close = parseTimeOfDay(day?.close);
+        if (open === null || close === null || open >= close) {
+            errors.push({ field, message: 'Opening and closing times must be HH:MM, opening first' });
+            return;
+        }
+
+        for (const pause of day.breaks || []) {
+            const start = parseTimeOfDay(pause?.start);
+            const end = parseTimeOfDay(pause?.end);
+            if (start === null || end === null || start >= end || start < open || end > close) {
+                errors.push({ field: `${field}.breaks`, message: 'Breaks must be HH:MM ranges within opening hours' });
+            }
+        }
+    });
+    return errors;
+}
+
+/**
+ * Service for clinic opening hours, closures and slot availability
+ */
+export class ScheduleService {
+    /**
+     * Get the clinic working hours, falling back to the default schedule
+     */
+    static async getWorkingHours(): Promise<WorkingHours> {
+        if (!workingHoursCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const workingHours = await workingHoursCollection.findOne({ _id: WORKING_HOURS_ID });
+        return workingHours ?? DEFAULT_WORKING_HOURS;
+    }
+
+    /**
+     * Update the clinic working hours
+     */
+    static async updateWorkingHours(data: UpdateWorkingHoursRequest): Promise<WorkingHours> {
+        if (!workingHoursCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const errors: FieldError[] = [];
+        if (data.weekly !== undefined) {
+            errors.push(...validateWeekly(data.weekly));
+        }
+        if (data.slotInterval !== undefined && (!Number.isInteger(Number(data.slotInterval)) || Number(data.slotInterval) < 5)) {
+            errors.push({ field: 'slotInterval', message: 'Slot interval must be a whole number of minutes, at least 5' });
+        }
+        assertNoFieldErrors(errors);
+
+        const current = await this.getWorkingHours();
+        const updated: WorkingHours = {
+            ...current,
+            weekly: data.weekly !== undefined
+                ? data.weekly.map(day => day && { open: day.open, close: day.close, breaks: day.breaks || [] })
+                : current.weekly,
+            observeNationalHolidays: data.observeNationalHolidays ?? current.observeNationalHolidays,
+            slotInterval: data.slotInterval !== undefined ? Number(data.slotInterval) : current.slotInterval,
+            updatedAt: new Date()
+        };
+
+        const { _id, ...fields } = updated;
+        await workingHoursCollection.updateOne({ _id: WORKING_HOURS_ID }, { $set: fields }, { upsert: true });
+        return updated;
+    }
+
+    /**
+     * Get closure periods, optionally only those overlapping a date range
+     */
+    static async getClosures(params: ClosureQueryParams = {}): Promise<SerializedClosure[]> {
+        if (!closuresCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.from) query.endDate = { $gte: params.from };
+        if (params.to) query.startDate = { $lte: params.to };
+
+        const closures = await closuresCollection.find(query).sort({ startDate: 1 }).toArray();
+        return closures.map(serializeClosure);
+    }
+
+    /**
+     * Add a closure period (clinic holidays, local feast days, maintenance...)
+     */
+    static async createClosure(data: CreateClosureRequest): Promise<SerializedClosure> {
+        if (!closuresCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['startDate']);
+
+        const endDate = data.endDate ?? data.startDate;
+        const errors: FieldError[] = [];
+        if (!isDateKey(data.startDate)) errors.push({ field: 'startDate', message: 'Start date must be YYYY-MM-DD' });
+        if (!isDateKey(endDate)) errors.push({ field: 'endDate', message: 'End date must be YYYY-MM-DD' });
+        else if (endDate < data.startDate) errors.push({ field: 'endDate', message: 'End date must not be before the start date' });
+        assertNoFieldErrors(errors);
+
+        const newClosure: Omit<ClosurePeriod, '_id'> = {
+            startDate: data.startDate,
+            endDate,
+            createdAt: new Date()
+        };
+        if (data.reason !== undefined) newClosure.reason = data.reason;
+
+        const result = await closuresCollection.insertOne(newClosure);
+        return serializeClosure({ ...newClosure, _id: result.insertedId });
+    }
+
+    /**
+     * Delete a closure period
+     */
+    static async deleteClosure(id: string): Promise<void> {
+        if (!closuresCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const result = await closuresCollection.findOneAndDelete(buildObjectIdQuery(id) as any);
+
+        if (!result) {
+            throw new HTTPError('Closure not found', 404, 'Not Found');
+        }
+    }
+
+    /**
+     * Get every day of a year on which the clinic is closed for a holiday or closure period
+     */
+    static async getHolidays(year: number): Promise<HolidayEntry[]> {
+        if (!Number.isInteger(year) || year < 1900 || year > 2999) {
+            throw new HTTPError('Invalid year', 400, 'Validation Error');
+        }
+
+        const workingHours = await this.getWorkingHours();
+        const entries: HolidayEntry[] = workingHours.observeNationalHolidays
+            ? getItalianHolidays(year).map(holiday => ({ ...holiday, source: 'national' as const }))
+            : [];
+
+        const closures = await this.getClosures({ from: `${year}-01-01`, to: `${year}-12-31` });
+        for (const closure of closures) {
+            // Step through calendar days in UTC, where every day is 24 hours long
+            const day = new Date(`${closure.startDate}T00:00:00Z`);
+            for (let key = closure.startDate; key <= closure.endDate; key = day.toISOString().slice(0, 10)) {
+                if (key.startsWith(String(year))) {
+                    entries.push({ date: key, name: closure.reason || 'Closure', source: 'closure' });
+                }
+                day.setUTCDate(day.getUTCDate() + 1);
+            }
+        }
+
+        return entries.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * Get the opening intervals of a day, net of breaks, or the reason the clinic is closed
+     */
+    static async getDayAvailability(date: Date): Promise<DayAvailability> {
+        if (!closuresCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const key = toDateKey(date);
+        const closed = (reason: string): DayAvailability => ({ date: key, open: false, reason, intervals: [] });
+
+        const closure = await closuresCollection.findOne({ startDate: { $lte: key }, endDate: { $gte: key } });
+        if (closure) return closed(closure.reason || 'Closure');
+
+        const workingHours = await this.getWorkingHours();
+        if (workingHours.observeNationalHolidays) {
+            const holiday = getItalianHoliday(date);
+            if (holiday) return closed(holiday.name);
+        }
+
+        const day = workingHours.weekly[getDayOfWeek(date)];
+        if (!day) return closed('Closed on this weekday');
+
+        // Cut the breaks out of the opening hours
+        const intervals: TimeSlot[] = [];
+        let cursor = parseTimeOfDay(day.open)!;
+        const breaks = [...(day.breaks || [])].sort((a, b) => parseTimeOfDay(a.start)! - parseTimeOfDay(b.start)!);
+        for (const pause of breaks) {
+            const start = parseTimeOfDay(pause.start)!;
+            if (start > cursor) intervals.push({ start: atMinutes(date, cursor), end: atMinutes(date, start) });
+            cursor = Math.max(cursor, parseTimeOfDay(pause.end)!);
+        }
+        const close = parseTimeOfDay(day.close)!;
+        if (close > cursor) intervals.push({ start: atMinutes(date, cursor), end: atMinutes(date, close) });
+
+        return { date: key, open: true, intervals };
+    }
+
+    /**
+     * Check whether a time slot lies entirely within the clinic's opening hours
+     */
+    static async isWithinWorkingHours(slot: Pick<Appointment, 'date' | 'duration'>): Promise<boolean> {
+        const start = new Date(slot.date);
+        const end = getAppointmentEnd(slot);
+        const availability = await this.getDayAvailability(start);
+        return availability.intervals.some(interval => interval.start <= start && interval.end >= end);
+    }
+
+    /**
+     * Reject a time slot outside the clinic's opening hours
+     */
+    static async assertWithinWorkingHours(slot: Pick<Appointment, 'date' | 'duration'>): Promise<void> {
+        if (!(await this.isWithinWorkingHours(slot))) {
+            const availability = await this.getDayAvailability(new Date(slot.date));
+            throw new HTTPError(
+                'The requested time is outside working hours. Set allowOutsideHours to book it anyway.',
+                409,
+                'Conflict',
+                { availability }
+            );
+        }
+    }
+
+    /**
+     * Find the free slots of a given length on a day, honouring opening hours, breaks,
+     * closures and the appointments already booked for the requested practitioner or room
+     */
+    static async findFreeSlots(params: SlotQueryParams): Promise<TimeSlot[]> {
+        validateRequiredFields(params, ['date']);
+
+        // Plain dates are calendar days in the clinic's time zone
+        const day = isDateKey(params.date)
+            ? fromZonedTime([...params.date.split('-').map(Number), 0, 0, 0], CALENDAR_TIMEZONE)
+            : new Date(params.date!);
+        const duration = params.duration !== undefined ? Number(params.duration) : DEFAULT_APPOINTMENT_DURATION;
+        validateSchedule(day, duration);
+
+        if (params.practitionerId !== undefined && !ObjectId.isValid(params.practitionerId)) {
+            assertNoFieldErrors([{ field: 'practitionerId', message: 'Practitioner ID is not valid' }]);
+        }
+        if (params.roomId !== undefined && !ObjectId.isValid(params.roomId)) {
+            assertNoFieldErrors([{ field: 'roomId', message: 'Room ID is not valid' }]);
+        }
+
+        const [availability, workingHours] = await Promise.all([
+            this.getDayAvailability(day),
+            this.getWorkingHours()
+        ]);
+        if (availability.intervals.length === 0) return [];
+
+        const appointments = await AppointmentService.findBookedInRange(
+            availability.intervals[0].start,
+            availability.intervals[availability.intervals.length - 1].end
+        );
+
+        const now = new Date();
+        const slots: TimeSlot[] = [];
+        for (const interval of availability.intervals) {
+            for (
+                let start = interval.start;
+                start.getTime() + duration * 60 * 1000 <= interval.end.getTime();
+                start = new Date(start.getTime() + workingHours.slotInterval * 60 * 1000)
+            ) {
+                if (start < now) continue;
+
+                const slot = { date: start, duration, practitionerId: params.practitionerId, roomId: params.roomId };
+                if (!appointments.some(appointment => blocksSlot(slot, appointment))) {
+                    slots.push({ start, end: getAppointmentEnd(slot) });
+                }
+            }
+        }
+
+        return slots;
+    }
+}
@@ -0,0 +1,183 @@
+import { patientsCollection, treatmentsCollection } from '../database';
+import { Patient, Treatment } from '../models';
+import { HTTPError } from '../utils/errors';
+import { validateRequiredFields } from '../utils/validation';
+import { parsePaginationParams } from '../utils/pagination';
+import { parseSearchTerms, buildSnippet, buildExcerpt } from '../utils/textSearch';
+import { PatientService } from './patientService';
+import { PaginatedResult } from '../types/api';
+import { SearchQueryParams, SearchResult, SearchResultType, SEARCH_RESULT_TYPES } from '../types/search';
+
+type Scored<T> = T & { score: number };
+
+/**
+ * Parse the comma-separated result type filter
+ */
+function parseResultTypes(types: string | undefined): SearchResultType[] {
+    if (!types) return SEARCH_RESULT_TYPES;
+
+    const requested = types.split(',').map(type => type.trim()).filter(type => type.length > 0);
+    const invalid = requested.filter(type => !SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+    if (invalid.length > 0) {
+        throw new HTTPError(
+            `Invalid result types: ${invalid.join(', ')}. Allowed: ${SEARCH_RESULT_TYPES.join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+    return requested as SearchResultType[];
+}
+
+/**
+ * Pick the field with the most matches and cut its snippet. Falls back to the start of the
+ * first non-empty field when MongoDB matched on a form the highlighter does not recognise.
+ */
+function pickSnippet(fields: Array<[string, string | undefined]>, stems: string[]): Pick<SearchResult, 'field' | 'snippet' | 'highlights'> {
+    let best: Pick<SearchResult, 'field' | 'snippet' | 'highlights'> | null = null;
+    let bestMatches = 0;
+
+    for (const [field, text] of fields) {
+        if (!text) continue;
+        const snippet = buildSnippet(text, stems);
+        if (snippet && snippet.matches > bestMatches) {
+            best = { field, snippet: snippet.snippet, highlights: snippet.highlights };
+            bestMatches = snippet.matches;
+        }
+    }
+
+    if (best) return best;
+
+    const [field, text] = fields.find(([, text]) => !!text?.trim()) ?? [fields[0][0], ''];
+    return { field, snippet: buildExcerpt(text || ''), highlights: [] };
+}
+
+/**
+ * Text fields of a treatment, in the order they are preferred for snippets
+ */
+function getTreatmentTextFields(treatment: Treatment): Array<[string, string | undefined]> {
+    return [
+        ['content', treatment.content],
+        ['soap.subjective', treatment.soap?.subjective],
+        ['soap.objective', treatment.soap?.objective],
+        ['soap.assessment', treatment.soap?.assessment],
+        ['soap.plan', treatment.soap?.plan],
+        ...(treatment.attachemnts || [])
+            .filter(attachment => attachment.type === 'text')
+            .map((attachment): [string, string] => ['attachment', attachment.data]),
+        ...(treatment.amendments || []).map((amendment): [string, string] => ['amendment', amendment.content])
+    ];
+}
+
+/**
+ * Text fields of a patient's anamnesis, in the order they are preferred for snippets
+ */
+function getAnamnesisTextFields(patient: Patient): Array<[string, string | undefined]> {
+    return [
+        ['anamnesi', patient.anamnesi],
+        ['anamnesis.chronicConditions', patient.anamnesis?.chronicConditions?.join(', ')],
+        ['anamnesis.pastSurgeries', patient.anamnesis?.pastSurgeries?.join(', ')],
+        ['anamnesis.lifestyle', patient.anamnesis?.lifestyle],
+        ['anamnesis.allergies', patient.anamnesis?.allergies?.join(', ')],
+        ['anamnesis.currentMedications', patient.anamnesis?.currentMedications?.join(', ')]
+    ];
+}
+
+/**
+ * Service for full-text search across clinical records
+ */
+export class SearchService {
+    /**
+     * Search treatment notes and patient anamneses, best matches first, with highlighted snippets
+     */
+    static async search(params: SearchQueryParams): Promise<PaginatedResult<SearchResult>> {
+        if (!patientsCollection || !treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(params, ['q']);
+        const q = params.q!.trim();
+        const types = parseResultTypes(params.types);
+        const { limit, page } = parsePaginationParams(params);
+        const stems = parseSearchTerms(q);
+
+        const textQuery = { $text: { $search: q, $language: 'italian' } };
+        const patientFilter = params.patientId ? { $eq: Number(params.patientId) } : {};
+        // Results from both collections are merged, so each must supply enough to fill the requested page
+        const fetchCount = page * limit;
+
+        let total = 0;
+        const results: SearchResult[] = [];
+
+        if (types.includes('treatment')) {
+            const query: any = {
+                ...textQuery,
+                patientId: { ...patientFilter, $nin: await PatientService.getDeletedPatientIds() }
+            };
+            total += await treatmentsCollection.countDocuments(query);
+
+            const treatments = await treatmentsCollection
+                .find(query)
+                .project<Scored<Treatment>>({ score: { $meta: 'textScore' } })
+                .sort({ score: { $meta: 'textScore' } })
+                .limit(fetchCount)
+                .toArray();
+
+            const patientIds = Array.from(new Set(treatments.map(treatment => treatment.patientId)));
+            const patients = await patientsCollection.find({ id: { $in: patientIds } }).toArray();
+            const patientsById = new Map(patients.map(patient => [patient.id, patient]));
+
+            for (const treatment of treatments) {
+                const patient = patientsById.get(treatment.patientId);
+                if (!patient) continue;
+
+                results.push({
+                    type: 'treatment',
+                    score: treatment.score,
+                    patient: { id: patient.id, name: patient.name, surname: patient.surname },
+                    treatmentId: treatment.id,
+                    date: treatment.date,
+                    ...pickSnippet(getTreatmentTextFields(treatment), stems),
+                    links: { patient: `/api/patients/${patient.id}`, treatment: `/api/treatments/${treatment.id}` }
+                });
+            }
+        }
+
+        if (types.includes('anamnesis')) {
+            const query: any = { ...textQuery, deletedAt: null };
+            if (params.patientId) query.id = patientFilter;
+            total += await patientsCollection.countDocuments(query);
+
+            const patients = await patientsCollection
+                .find(query)
+                .project<Scored<Patient>>({ score: { $meta: 'textScore' } })
+                .sort({ score: { $meta: 'textScore' } })
+                .limit(fetchCount)
+                .toArray();
+
+            for (const patient of patients) {
+                results.push({
+                    type: 'anamnesis',
+                    score: patient.score,
+                    patient: { id: patient.id, name: patient.name, surname: patient.surname },
+                    ...pickSnippet(getAnamnesisTextFields(patient), stems),
+                    links: { patient: `/api/patients/${patient.id}` }
+                });
+            }
+        }
+
+        results.sort((a, b) => b.score - a.score);
+        const offset = (page - 1) * limit;
+        const items = results.slice(offset, offset + limit);
+
+        return {
+            items,
+            pagination: {
+                total,
+                limit,
+                page,
+                nextCursor: null,
+                hasMore: offset + limit < total
+            }
+        };
+    }
+}
@@ -2,6 +2,7 @@ import { patientsCollection, treatmentsCollection } from '../database';
 import { HTTPError } from '../utils/errors';
 import { TimeFrame, getDateRange, getGroupingInterval, formatDateForGrouping, normalizeDate, isDateInRange } from '../utils/dateUtils';
 import { TimeSeriesStats, OverviewStats } from '../types/stats';
+import { PatientService, ACTIVE_PATIENT_FILTER } from './patientService';
 
 /**
  * Service for statistics-related business logic
@@ -20,21 +21,23 @@ export class StatsService {
 
         // Current period data
         const currentPatients = await patientsCollection.find({
+            ...ACTIVE_PATIENT_FILTER,
             createdAt: {
                 $gte: start,
                 $lte: end
             }
-        }).toArray();
+        } as any).toArray();
 
         // Previous period data for comparison
         let previousPatients: any[] = [];
         if (previousStart && previousEnd) {
             previousPatients = await patientsCollection.find({
+                ...ACTIVE_PATIENT_FILTER,
                 createdAt: {
                     $gte: previousStart,
                     $lte: previousEnd
                 }
-            }).toArray();
+            } as any).toArray();
         }
 
         // Group data by interval
@@ -72,8 +75,10 @@ export class StatsService {
         const { start, end, previousStart, previousEnd } = getDateRange(timeFrame);
         const interval = getGroupingInterval(timeFrame);
 
-        // Retrieve all treatments and filter in code to handle both Date objects and strings
-        const allTreatments = await treatmentsCollection.find({}).toArray();
+        // Retrieve all treatments of active patients and filter in code to handle both Date objects and strings
+        const allTreatments = await treatmentsCollection.find({
+            patientId: { $nin: await PatientService.getDeletedPatientIds() }
+        }).toArray();
         
         // Filter treatments by date range
         const currentTreatments = allTreatments.filter(treatment => {
@@ -125,11 +130,13 @@ export class StatsService {
         const { start, end, previousStart, previousEnd } = getDateRange(timeFrame);
 
         // Current period - for treatments, we need to filter manually to handle both Date and string formats
+        const deletedPatientIds = await PatientService.getDeletedPatientIds();
         const [currentPatients, allTreatmentsForOverview] = await Promise.all([
             patientsCollection.countDocuments({
+                ...ACTIVE_PATIENT_FILTER,
                 createdAt: { $gte: start, $lte: end }
-            }),
-            treatmentsCollection.find({}).toArray()
+            } as any),
+            treatmentsCollection.find({ patientId: { $nin: deletedPatientIds } }).toArray()
         ]);
         
         // Filter treatments by date range
@@ -143,8 +150,9 @@ export class StatsService {
         let previousTreatments = 0;
         if (previousStart && previousEnd) {
             previousPatients = await patientsCollection.countDocuments({
+                ...ACTIVE_PATIENT_FILTER,
                 createdAt: { $gte: previousStart, $lte: previousEnd }
-            });
+            } as any);
             
             previousTreatments = allTreatmentsForOverview.filter(treatment => {
                 const date = normalizeDate(treatment.date);
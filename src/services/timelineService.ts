@@ -0,0 +1,155 @@
+import { HTTPError } from '../utils/errors';
+import { normalizeDate, isDateInRange } from '../utils/dateUtils';
+import { parsePaginationParams } from '../utils/pagination';
+import { getUploadTimeFromFileName } from '../utils/fileHandler';
+import { PatientService } from './patientService';
+import { TreatmentService } from './treatmentService';
+import { AppointmentService } from './appointmentService';
+import { PaginatedResult } from '../types/api';
+import { TimelineEvent, TimelineEventType, TimelineQueryParams, TIMELINE_EVENT_TYPES } from '../types/timeline';
+
+/**
+ * Parse the comma-separated event type filter
+ */
+function parseEventTypes(types: string | undefined): TimelineEventType[] {
+    if (!types) return TIMELINE_EVENT_TYPES;
+
+    const requested = types.split(',').map(type => type.trim()).filter(type => type.length > 0);
+    const invalid = requested.filter(type => !TIMELINE_EVENT_TYPES.includes(type as TimelineEventType));
+    if (invalid.length > 0) {
+        throw new HTTPError(
+            `Invalid event types: ${invalid.join(', ')}. Allowed: ${TIMELINE_EVENT_TYPES.join(', ')}`,
+            400,
+            'Validation Error'
+        );
+    }
+    return requested as TimelineEventType[];
+}
+
+/**
+ * Service building a unified, chronological view of everything that happened to a patient
+ */
+export class TimelineService {
+    /**
+     * Get the paginated timeline of a patient
+     */
+    static async getPatientTimeline(id: string, params: TimelineQueryParams = {}): Promise<PaginatedResult<TimelineEvent>> {
+        const { limit, page } = parsePaginationParams(params);
+        const types = parseEventTypes(params.types);
+
+        const order = (params.order || 'desc').toLowerCase();
+        if (order !== 'asc' && order !== 'desc') {
+            throw new HTTPError('Invalid order: must be asc or desc', 400, 'Validation Error');
+        }
+
+        const start = params.startDate ? normalizeDate(params.startDate) : null;
+        const end = params.endDate ? normalizeDate(params.endDate) : null;
+        if ((params.startDate && !start) || (params.endDate && !end)) {
+            throw new HTTPError('Invalid date range', 400, 'Validation Error');
+        }
+
+        const patient = await PatientService.getPatientById(id);
+        const patientId = String(patient.id);
+        const events: TimelineEvent[] = [];
+
+        if (types.includes('registration') && patient.createdAt) {
+            events.push({
+                type: 'registration',
+                date: patient.createdAt,
+                title: 'Patient registered'
+            });
+        }
+
+        if (types.includes('treatment') || types.includes('attachment')) {
+            const treatments = await TreatmentService.getAllTreatments({ patientId });
+            for (const treatment of treatments) {
+                // Treatment dates are stored either as Date objects or as strings
+                const treatmentDate = normalizeDate(treatment.date);
+
+                if (types.includes('treatment') && treatmentDate) {
+                    events.push({
+                        type: 'treatment',
+                        date: treatmentDate,
+                        title: 'Treatment',
+                        treatmentId: treatment.id,
+                        data: {
+                            content: treatment.content,
+                            attachmentsCount: treatment.attachemnts.length,
+                            bodyRegions: treatment.bodyRegions || [],
+                            vasScore: treatment.vasScore ?? null
+                        }
+                    });
+                }
+
+                if (types.includes('attachment')) {
+                    for (const attachment of treatment.attachemnts) {
+                        if (attachment.type !== 'file') continue;
+
+                        const uploadedAt = attachment.uploadedAt
+                            || getUploadTimeFromFileName(attachment.data)
+                            || treatment.createdAt;
+                        if (!uploadedAt) continue;
+
+                        events.push({
+                            type: 'attachment',
+                            date: new Date(uploadedAt),
+                            title: `Attachment uploaded: ${attachment.originalName || attachment.data}`,
+                            treatmentId: treatment.id,
+                            data: { fileName: attachment.data, originalName: attachment.originalName }
+                        });
+                    }
+                }
+            }
+        }
+
+        if (types.includes('appointment')) {
+            const appointments = await AppointmentService.getAllAppointments({ patientId });
+            for (const appointment of appointments) {
+                events.push({
+                    type: 'appointment',
+                    date: new Date(appointment.date),
+                    title: `Appointment (${appointment.status})`,
+                    appointmentId: appointment.id,
+                    data: { status: appointment.status, duration: appointment.duration }
+                });
+            }
+        }
+
+        if (types.includes('anamnesis')) {
+            for (const revision of patient.anamnesisHistory || []) {
+                events.push({
+                    type: 'anamnesis',
+                    date: new Date(revision.changedAt),
+                    title: `Anamnesis updated: ${revision.changedFields.join(', ')}`,
+                    revision: revision.revision,
+                    data: { changedFields: revision.changedFields }
+                });
+            }
+        }
+
+        const filtered = events.filter(event => {
+            if (start && end) return isDateInRange(event.date, start, end);
+            if (start) return isDateInRange(event.date, start, event.date);
+            if (end) return isDateInRange(event.date, event.date, end);
+            return true;
+        });
+
+        const direction = order === 'asc' ? 1 : -1;
+        filtered.sort((a, b) => direction * (a.date.getTime() - b.date.getTime()));
+
+        const offset = (page - 1) * limit;
+        const items = filtered.slice(offset, offset + limit);
+        const hasMore = offset + limit < filtered.length;
+
+        return {
+            items,
+            pagination: {
+                total: filtered.length,
+                limit,
+                page,
+                nextCursor: null,
+                hasMore
+            }
+        };
+    }
+}
@@ -0,0 +1,348 @@
+import { ObjectId } from 'mongodb';
+import { treatmentPlansCollection, treatmentsCollection, appointmentsCollection } from '../database';
+import { TreatmentPlan } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors, FieldError } from '../utils/validation';
+import { toDateKey } from '../utils/holidays';
+import { PatientService } from './patientService';
+import { PractitionerService } from './practitionerService';
+import { TreatmentService } from './treatmentService';
+import { AppointmentService } from './appointmentService';
+import { isDateKey } from './scheduleService';
+import {
+    CreateTreatmentPlanRequest,
+    UpdateTreatmentPlanRequest,
+    CloseTreatmentPlanRequest,
+    TreatmentPlanQueryParams,
+    TreatmentPlanSessionList,
+    SerializedTreatmentPlan,
+    TREATMENT_PLAN_STATUSES,
+    TREATMENT_PLAN_RESULTS
+} from '../types/treatmentPlan';
+
+/**
+ * Most sessions a single plan can prescribe
+ */
+const MAX_PRESCRIBED_SESSIONS = 100;
+
+/**
+ * Appointment statuses that still count as booked sessions
+ */
+const OPEN_APPOINTMENT_FILTER = { status: { $nin: ['cancelled', 'no-show', 'completed'] } };
+
+type SessionCounts = { used: number; scheduled: number };
+
+/**
+ * Serialize treatment plan for API response (convert _id to id as string, remove _id), with its session usage
+ */
+function serializePlan(plan: TreatmentPlan, counts: SessionCounts = { used: 0, scheduled: 0 }): SerializedTreatmentPlan {
+    const { _id, ...rest } = plan;
+    return {
+        ...rest,
+        id: _id?.toString() || '',
+        sessions: {
+            prescribed: plan.prescribedSessions,
+            used: counts.used,
+            remaining: Math.max(plan.prescribedSessions - counts.used, 0),
+            scheduled: counts.scheduled
+        }
+    };
+}
+
+/**
+ * Validate the fields of a treatment plan
+ */
+function validatePlan(data: UpdateTreatmentPlanRequest): FieldError[] {
+    const errors: FieldError[] = [];
+
+    if (data.goal !== undefined && (typeof data.goal !== 'string' || data.goal.trim().length === 0)) {
+        errors.push({ field: 'goal', message: 'Goal must be a non-empty string' });
+    }
+    if (data.prescribedSessions !== undefined) {
+        const sessions = data.prescribedSessions;
+        if (!Number.isInteger(sessions) || sessions < 1 || sessions > MAX_PRESCRIBED_SESSIONS) {
+            errors.push({ field: 'prescribedSessions', message: `Prescribed sessions must be a whole number from 1 to ${MAX_PRESCRIBED_SESSIONS}` });
+        }
+    }
+    if (data.startDate !== undefined && !isDateKey(data.startDate)) {
+        errors.push({ field: 'startDate', message: 'startDate must be a YYYY-MM-DD date' });
+    }
+    if (data.endDate !== undefined && data.endDate !== null && !isDateKey(data.endDate)) {
+        errors.push({ field: 'endDate', message: 'endDate must be a YYYY-MM-DD date' });
+    }
+    if (data.startDate && data.endDate && data.startDate > data.endDate) {
+        errors.push({ field: 'endDate', message: 'endDate must not be before startDate' });
+    }
+
+    return errors;
+}
+
+/**
+ * Service for treatment plans: cycles of prescribed sessions for one problem
+ */
+export class TreatmentPlanService {
+    /**
+     * Get treatment plans, most recent first
+     */
+    static async getPlans(params: TreatmentPlanQueryParams = {}): Promise<SerializedTreatmentPlan[]> {
+        if (!treatmentPlansCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.status) {
+            if (!TREATMENT_PLAN_STATUSES.includes(params.status as any)) {
+                throw new HTTPError(`Invalid status: ${params.status}. Allowed: ${TREATMENT_PLAN_STATUSES.join(', ')}`, 400, 'Validation Error');
+            }
+            query.status = params.status;
+        }
+        if (params.patientId) query.patientId = parseInt(params.patientId);
+
+        const plans = await treatmentPlansCollection.find(query).sort({ startDate: -1, createdAt: -1 }).toArray();
+        const counts = await this.countSessions(plans.map(plan => plan._id!.toString()));
+        return plans.map(plan => serializePlan(plan, counts.get(plan._id!.toString())));
+    }
+
+    /**
+     * Get a treatment plan by id, with its session usage
+     */
+    static async getPlanById(id: string): Promise<SerializedTreatmentPlan> {
+        const plan = await this.findPlan(id);
+        const counts = await this.countSessions([id]);
+        return serializePlan(plan, counts.get(id));
+    }
+
+    /**
+     * Get the treatments and appointments linked to a treatment plan
+     */
+    static async getSessions(id: string): Promise<TreatmentPlanSessionList> {
+        await this.findPlan(id);
+
+        const [treatments, appointments] = await Promise.all([
+            TreatmentService.getAllTreatments({ planId: id }),
+            AppointmentService.getAllAppointments({ planId: id })
+        ]);
+
+        return {
+            planId: id,
+            treatments: treatments.reverse(),
+            appointments
+        };
+    }
+
+    /**
+     * Create a treatment plan for a patient
+     */
+    static async createPlan(data: CreateTreatmentPlanRequest): Promise<SerializedTreatmentPlan> {
+        if (!treatmentPlansCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['patientId', 'goal', 'prescribedSessions']);
+        const patientId = Number(data.patientId);
+        if (!Number.isInteger(patientId) || !(await PatientService.patientExists(patientId))) {
+            assertNoFieldErrors([{ field: 'patientId', message: `Patient ${data.patientId} does not exist` }]);
+        }
+        assertNoFieldErrors(validatePlan(data));
+        await PractitionerService.assertAssignable(data.practitionerId);
+
+        const now = new Date();
+        const newPlan: Omit<TreatmentPlan, '_id'> = {
+            patientId,
+            goal: data.goal.trim(),
+            prescribedSessions: data.prescribedSessions,
+            startDate: data.startDate ?? toDateKey(now),
+            endDate: data.endDate ?? null,
+            practitionerId: data.practitionerId ?? null,
+            status: 'active',
+            createdAt: now,
+            updatedAt: now
+        };
+        if (data.notes !== undefined) newPlan.notes = data.notes;
+
+        const result = await treatmentPlansCollection.insertOne(newPlan);
+        return serializePlan({ ...newPlan, _id: result.insertedId });
+    }
+
+    /**
+     * Update an active treatment plan
+     */
+    static async updatePlan(id: string, data: UpdateTreatmentPlanRequest): Promise<SerializedTreatmentPlan> {
+        if (!treatmentPlansCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const existingPlan = await this.findPlan(id);
+        if (existingPlan.status !== 'active') {
+            throw new HTTPError(`Cannot update a ${existingPlan.status} treatment plan`, 409, 'Conflict');
+        }
+
+        assertNoFieldErrors(validatePlan({
+            startDate: existingPlan.startDate,
+            endDate: existingPlan.endDate,
+            ...data
+        }));
+        if (data.practitionerId !== undefined) {
+            await PractitionerService.assertAssignable(data.practitionerId);
+        }
+
+        const updateData: Partial<TreatmentPlan> = {
+            updatedAt: new Date()
+        };
+
+        if (data.goal !== undefined) updateData.goal = data.goal.trim();
+        if (data.prescribedSessions !== undefined) updateData.prescribedSessions = data.prescribedSessions;
+        if (data.startDate !== undefined) updateData.startDate = data.startDate;
+        if (data.endDate !== undefined) updateData.endDate = data.endDate;
+        if (data.practitionerId !== undefined) updateData.practitionerId = data.practitionerId;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+
+        const result = await treatmentPlansCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), status: 'active' } as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Treatment plan was closed in the meantime', 409, 'Conflict');
+        }
+
+        const counts = await this.countSessions([id]);
+        return serializePlan(result, counts.get(id));
+    }
+
+    /**
+     * Close a treatment plan with its outcome. Appointments still open are detached,
+     * so they no longer count towards the plan.
+     */
+    static async closePlan(id: string, data: CloseTreatmentPlanRequest): Promise<SerializedTreatmentPlan> {
+        if (!treatmentPlansCollection || !appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['result']);
+        const status = data.status ?? 'completed';
+        const errors: FieldError[] = [];
+        if (status !== 'completed' && status !== 'cancelled') {
+            errors.push({ field: 'status', message: 'Status must be completed or cancelled' });
+        }
+        if (!TREATMENT_PLAN_RESULTS.includes(data.result)) {
+            errors.push({ field: 'result', message: `Result must be one of: ${TREATMENT_PLAN_RESULTS.join(', ')}` });
+        }
+        assertNoFieldErrors(errors);
+
+        const { used } = (await this.countSessions([id])).get(id) ?? { used: 0 };
+        const now = new Date();
+        const outcome: TreatmentPlan['outcome'] = { result: data.result, sessionsUsed: used };
+        if (data.notes !== undefined) outcome.notes = data.notes;
+        if (data.closedBy !== undefined) outcome.closedBy = data.closedBy;
+
+        const result = await treatmentPlansCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), status: 'active' } as any,
+            { $set: { status, outcome, closedAt: now, updatedAt: now } },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            const existingPlan = await this.findPlan(id);
+            throw new HTTPError(`Treatment plan is already ${existingPlan.status}`, 409, 'Conflict');
+        }
+
+        await appointmentsCollection.updateMany(
+            { planId: id, ...OPEN_APPOINTMENT_FILTER } as any,
+            { $unset: { planId: '' }, $set: { updatedAt: now } }
+        );
+
+        return serializePlan(result, { used, scheduled: 0 });
+    }
+
+    /**
+     * Delete a treatment plan that has no sessions recorded; booked appointments are detached
+     */
+    static async deletePlan(id: string): Promise<void> {
+        if (!treatmentPlansCollection || !appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        await this.findPlan(id);
+        const { used } = (await this.countSessions([id])).get(id) ?? { used: 0 };
+        if (used > 0) {
+            throw new HTTPError(`Treatment plan has ${used} recorded sessions: close it instead`, 409, 'Conflict');
+        }
+
+        await treatmentPlansCollection.deleteOne(buildObjectIdQuery(id) as any);
+        await appointmentsCollection.updateMany(
+            { planId: id } as any,
+            { $unset: { planId: '' }, $set: { updatedAt: new Date() } }
+        );
+    }
+
+    /**
+     * Reject links to plans that do not exist, belong to another patient or are closed
+     */
+    static async assertAttachable(planId: string | null | undefined, patientId: number): Promise<void> {
+        if (!treatmentPlansCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (!planId) return;
+
+        const plan = ObjectId.isValid(planId)
+            ? await treatmentPlansCollection.findOne(buildObjectIdQuery(planId) as any)
+            : null;
+
+        if (!plan) {
+            assertNoFieldErrors([{ field: 'planId', message: `Treatment plan ${planId} does not exist` }]);
+        } else if (plan.patientId !== patientId) {
+            assertNoFieldErrors([{ field: 'planId', message: `Treatment plan ${planId} belongs to another patient` }]);
+        } else if (plan.status !== 'active') {
+            assertNoFieldErrors([{ field: 'planId', message: `Treatment plan ${planId} is ${plan.status}` }]);
+        }
+    }
+
+    /**
+     * Count the recorded treatments and the open appointments of each plan
+     */
+    private static async countSessions(planIds: string[]): Promise<Map<string, SessionCounts>> {
+        if (!treatmentsCollection || !appointmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const counts = new Map<string, SessionCounts>(planIds.map(planId => [planId, { used: 0, scheduled: 0 }]));
+        if (planIds.length === 0) return counts;
+
+        const [used, scheduled] = await Promise.all([
+            treatmentsCollection.aggregate<{ _id: string; count: number }>([
+                { $match: { planId: { $in: planIds } } },
+                { $group: { _id: '$planId', count: { $sum: 1 } } }
+            ]).toArray(),
+            appointmentsCollection.aggregate<{ _id: string; count: number }>([
+                { $match: { planId: { $in: planIds }, ...OPEN_APPOINTMENT_FILTER } },
+                { $group: { _id: '$planId', count: { $sum: 1 } } }
+            ]).toArray()
+        ]);
+
+        for (const { _id, count } of used) counts.get(_id)!.used = count;
+        for (const { _id, count } of scheduled) counts.get(_id)!.scheduled = count;
+
+        return counts;
+    }
+
+    /**
+     * Find a treatment plan or throw 404
+     */
+    private static async findPlan(id: string): Promise<TreatmentPlan> {
+        if (!treatmentPlansCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const plan = await treatmentPlansCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!plan) {
+            throw new HTTPError('Treatment plan not found', 404, 'Not Found');
+        }
+
+        return plan;
+    }
+}
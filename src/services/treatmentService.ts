@@ -1,10 +1,94 @@
 import { treatmentsCollection } from '../database';
-import { Treatment, TreatmentAttachment } from '../models';
-import { HTTPError } from '../utils/errors';
-import { buildIdQuery } from '../utils/queryBuilder';
-import { validateRequiredFields } from '../utils/validation';
-import { CreateTreatmentRequest, UpdateTreatmentRequest, TreatmentQueryParams } from '../types/treatment';
+import { BodyRegion, Treatment, TreatmentAttachment, TreatmentRevision, TreatmentSnapshot } from '../models';
+import { HTTPError, getDuplicateKeyField } from '../utils/errors';
+import { buildIdQuery, escapeRegex } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors, FieldError } from '../utils/validation';
+import { normalizeDate } from '../utils/dateUtils';
+import {
+    CreateTreatmentRequest,
+    UpdateTreatmentRequest,
+    TreatmentQueryParams,
+    CreateTreatmentAmendmentRequest,
+    TreatmentRevisionHistory,
+    TreatmentRevisionDiff,
+    VasTrendQueryParams,
+    VasTrend
+} from '../types/treatment';
 import { saveFile, deleteAttachmentFiles, normalizeAttachments } from '../utils/fileHandler';
+import { nextSequenceValue, ensureSequenceAtLeast } from '../utils/sequence';
+import { takeSnapshot, diffSnapshots, buildOriginalRevision, collectAttachmentFiles } from '../utils/treatmentHistory';
+import { BODY_REGIONS, VAS_MIN, VAS_MAX, validateClinicalFields } from '../utils/clinicalFields';
+import { PatientService } from './patientService';
+import { PractitionerService } from './practitionerService';
+import { RoomService } from './roomService';
+import { AppointmentService } from './appointmentService';
+import { TreatmentTemplateService } from './treatmentTemplateService';
+import { TreatmentPlanService } from './treatmentPlanService';
+
+/**
+ * Days after which a treatment is locked: it then only accepts amendments
+ */
+const LOCK_PERIOD_DAYS = Number(process.env.TREATMENT_LOCK_DAYS) || 7;
+
+/**
+ * When a treatment becomes locked, counted from when it was recorded
+ */
+function getLockDate(treatment: Treatment): Date {
+    const recordedAt = new Date(treatment.createdAt ?? treatment.date);
+    return new Date(recordedAt.getTime() + LOCK_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Filter matching a treatment only while it still has the given number of revisions
+ */
+function buildRevisionCountQuery(treatment: Treatment) {
+    const count = treatment.revisions?.length ?? 0;
+    if (count > 0) {
+        return { _id: treatment._id, revisions: { $size: count } };
+    }
+    return { _id: treatment._id, $or: [{ revisions: { $exists: false } }, { revisions: { $size: 0 } }] };
+}
+
+/**
+ * Parse a body region filter, rejecting unknown regions
+ */
+function parseBodyRegion(value: string | undefined): BodyRegion | null {
+    if (!value) return null;
+    if (!BODY_REGIONS.includes(value as BodyRegion)) {
+        assertNoFieldErrors([{ field: 'bodyRegion', message: `Must be one of: ${BODY_REGIONS.join(', ')}` }]);
+    }
+    return value as BodyRegion;
+}
+
+/**
+ * Build the filter on structured clinical fields from query parameters
+ */
+function buildClinicalFilter(params: TreatmentQueryParams): Record<string, unknown> {
+    const filter: Record<string, any> = {};
+    const errors: FieldError[] = [];
+
+    const bodyRegion = parseBodyRegion(params.bodyRegion);
+    if (bodyRegion) filter.bodyRegions = bodyRegion;
+
+    if (params.technique?.trim()) {
+        filter.techniques = new RegExp(`^${escapeRegex(params.technique.trim())}$`, 'i');
+    }
+
+    for (const [field, operator] of [['vasMin', '$gte'], ['vasMax', '$lte']] as const) {
+        const value = params[field];
+        if (value === undefined || value === '') continue;
+
+        const score = Number(value);
+        if (!Number.isFinite(score) || score < VAS_MIN || score > VAS_MAX) {
+            errors.push({ field, message: `Must be a number from ${VAS_MIN} to ${VAS_MAX}` });
+            continue;
+        }
+        filter.vasScore = { ...filter.vasScore, [operator]: score };
+    }
+
+    assertNoFieldErrors(errors);
+    return filter;
+}
 
 /**
  * Service for treatment-related business logic
@@ -18,7 +102,21 @@ export class TreatmentService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        const query = params.patientId ? { patientId: Number(params.patientId) } : {};
+        // Hide treatments belonging to soft-deleted patients
+        const query: any = {
+            ...buildClinicalFilter(params),
+            patientId: { $nin: await PatientService.getDeletedPatientIds() }
+        };
+        if (params.patientId) {
+            query.patientId.$eq = Number(params.patientId);
+        }
+        if (params.planId) {
+            query.planId = params.planId;
+        }
+        if (params.q?.trim()) {
+            query.$text = { $search: params.q.trim(), $language: 'italian' };
+        }
+
         const treatments = await treatmentsCollection.find(query).sort({ date: -1 }).toArray();
         
         return treatments.map(treatment => this.normalizeTreatment(treatment));
@@ -49,26 +147,54 @@ export class TreatmentService {
             throw new HTTPError('Database not initialized', 500, 'Database Error');
         }
 
-        validateRequiredFields(data, ['id', 'patientId', 'date', 'content']);
+        // Treatments recorded when completing a visit may get their notes later,
+        // and templates provide the content themselves
+        validateRequiredFields(data, data.appointmentId || data.templateId ? ['patientId', 'date'] : ['patientId', 'date', 'content']);
 
-        // Check if id already exists
-        const existingTreatment = await treatmentsCollection.findOne({ id: Number(data.id) });
-        if (existingTreatment) {
-            throw new HTTPError('Treatment ID already exists', 409, 'Conflict');
+        const { value: clinicalFields, errors } = validateClinicalFields(data);
+        assertNoFieldErrors(errors);
+
+        let content = data.content ?? '';
+        if (data.templateId) {
+            await TreatmentTemplateService.assertUsable(data.templateId);
+            const rendered = await TreatmentTemplateService.renderTemplate(data.templateId, Number(data.patientId), data.date);
+            content = [rendered.content, content].filter(text => text.trim().length > 0).join('\n\n');
         }
 
+        await PractitionerService.assertAssignable(data.practitionerId);
+        await RoomService.assertAssignable(data.roomId);
+        await TreatmentPlanService.assertAttachable(data.planId, Number(data.patientId));
+
+        const id = await this.allocateTreatmentId(data.id);
+
         const now = new Date();
         const newTreatment: Treatment = {
-            id: Number(data.id),
+            id,
             patientId: Number(data.patientId),
             date: typeof data.date === 'string' ? data.date : data.date,
-            content: data.content,
+            content,
             attachemnts: data.attachemnts || [],
+            practitionerId: data.practitionerId ?? null,
+            roomId: data.roomId ?? null,
+            ...clinicalFields,
             createdAt: now,
             updatedAt: now
         };
-
-        const result = await treatmentsCollection.insertOne(newTreatment);
+        if (data.appointmentId) newTreatment.appointmentId = data.appointmentId;
+        if (data.templateId) newTreatment.templateId = data.templateId;
+        if (data.planId) newTreatment.planId = data.planId;
+        newTreatment.revisions = [buildOriginalRevision(newTreatment)];
+
+        let result;
+        try {
+            result = await treatmentsCollection.insertOne(newTreatment);
+        } catch (error) {
+            // Another request took the same id in the meantime
+            if (getDuplicateKeyField(error) === 'id') {
+                throw new HTTPError('Treatment ID already exists', 409, 'Conflict');
+            }
+            throw error;
+        }
         const createdTreatment = await treatmentsCollection.findOne({ _id: result.insertedId });
 
         if (!createdTreatment) {
@@ -78,6 +204,32 @@ export class TreatmentService {
         return this.normalizeTreatment(createdTreatment);
     }
 
+    /**
+     * Allocate a server-assigned treatment id, or accept a client-supplied one during the transition period
+     */
+    private static async allocateTreatmentId(requestedId?: number): Promise<number> {
+        if (!treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        if (requestedId === undefined || requestedId === null) {
+            return await nextSequenceValue('treatments');
+        }
+
+        const id = Number(requestedId);
+        if (!Number.isInteger(id) || id < 1) {
+            assertNoFieldErrors([{ field: 'id', message: 'Treatment ID must be a positive integer' }]);
+        }
+
+        const existingTreatment = await treatmentsCollection.findOne({ id });
+        if (existingTreatment) {
+            throw new HTTPError('Treatment ID already exists', 409, 'Conflict');
+        }
+
+        await ensureSequenceAtLeast('treatments', id);
+        return id;
+    }
+
     /**
      * Update a treatment
      */
@@ -93,7 +245,11 @@ export class TreatmentService {
             throw new HTTPError('Treatment not found', 404, 'Not Found');
         }
 
+        const { value: clinicalFields, errors } = validateClinicalFields(data);
+        assertNoFieldErrors(errors);
+
         const updateData: Partial<Treatment> = {
+            ...clinicalFields,
             updatedAt: new Date()
         };
 
@@ -101,21 +257,209 @@ export class TreatmentService {
         if (data.date !== undefined) updateData.date = data.date;
         if (data.content !== undefined) updateData.content = data.content;
         if (data.aiAnalysis !== undefined) updateData.aiAnalysis = data.aiAnalysis;
+        if (data.practitionerId !== undefined) {
+            await PractitionerService.assertAssignable(data.practitionerId);
+            updateData.practitionerId = data.practitionerId;
+        }
+        if (data.roomId !== undefined) {
+            await RoomService.assertAssignable(data.roomId);
+            updateData.roomId = data.roomId;
+        }
         if (data.attachemnts !== undefined) {
             updateData.attachemnts = data.attachemnts;
         }
+        // The plan must belong to the patient, also when only the patient changes
+        if (data.planId !== undefined || updateData.patientId !== undefined) {
+            const planId = data.planId !== undefined ? data.planId : existingTreatment.planId;
+            await TreatmentPlanService.assertAttachable(planId, updateData.patientId ?? existingTreatment.patientId);
+            if (data.planId !== undefined) updateData.planId = data.planId || null;
+        }
+
+        const result = await this.applyChange(existingTreatment, updateData, {
+            kind: 'edit',
+            reason: data.reason,
+            changedBy: data.changedBy
+        });
+
+        return this.normalizeTreatment(result);
+    }
+
+    /**
+     * Add an amendment to a treatment; the only change accepted once it is locked
+     */
+    static async addAmendment(id: string, data: CreateTreatmentAmendmentRequest): Promise<Treatment> {
+        if (!treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['content', 'reason']);
+
+        const existingTreatment = await treatmentsCollection.findOne(buildIdQuery(id) as any);
+
+        if (!existingTreatment) {
+            throw new HTTPError('Treatment not found', 404, 'Not Found');
+        }
+
+        const now = new Date();
+        const amendment = { content: data.content, reason: data.reason, amendedAt: now, ...(data.amendedBy ? { amendedBy: data.amendedBy } : {}) };
+        const result = await this.applyChange(
+            existingTreatment,
+            { amendments: [...(existingTreatment.amendments || []), amendment], updatedAt: now },
+            { kind: 'amendment', reason: data.reason, changedBy: data.amendedBy }
+        );
+
+        return this.normalizeTreatment(result);
+    }
+
+    /**
+     * Get the revisions of a treatment, oldest first, with its lock state
+     */
+    static async getRevisions(id: string): Promise<TreatmentRevisionHistory> {
+        const treatment = await this.getTreatmentById(id);
+        const lockedAt = getLockDate(treatment);
 
+        return {
+            treatmentId: treatment.id,
+            locked: lockedAt <= new Date(),
+            lockedAt,
+            revisions: treatment.revisions?.length ? treatment.revisions : [buildOriginalRevision(treatment)]
+        };
+    }
+
+    /**
+     * Compare two revisions of a treatment (by default the latest with the one before it)
+     */
+    static async getRevisionDiff(id: string, from?: string, to?: string): Promise<TreatmentRevisionDiff> {
+        const { treatmentId, revisions } = await this.getRevisions(id);
+        const latest = revisions[revisions.length - 1].revision;
+
+        const findRevision = (value: string | undefined, fallback: number, field: string): TreatmentRevision => {
+            const number = value !== undefined ? Number(value) : fallback;
+            const revision = revisions.find(candidate => candidate.revision === number);
+            if (!revision) {
+                throw new HTTPError(`${field} must be a revision between 1 and ${latest}`, 400, 'Validation Error');
+            }
+            return revision;
+        };
+
+        const target = findRevision(to, latest, 'to');
+        const base = findRevision(from, Math.max(target.revision - 1, 1), 'from');
+        const changes = diffSnapshots(base.snapshot, target.snapshot).map(field => ({
+            field,
+            from: base.snapshot[field],
+            to: target.snapshot[field]
+        }));
+
+        return { treatmentId, from: base.revision, to: target.revision, changes };
+    }
+
+    /**
+     * Get a patient's VAS pain scores over time, optionally for a single body region
+     */
+    static async getVasTrend(patientId: string, params: VasTrendQueryParams = {}): Promise<VasTrend> {
+        if (!treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const patient = await PatientService.getPatientById(patientId);
+        const bodyRegion = parseBodyRegion(params.bodyRegion);
+
+        const query: any = { patientId: patient.id, vasScore: { $type: 'number' } };
+        if (bodyRegion) query.bodyRegions = bodyRegion;
+
+        const treatments = await treatmentsCollection.find(query).toArray();
+        // Dates are stored both as strings and as dates, so sort them here rather than in the query
+        const points = treatments
+            .map(treatment => ({
+                treatmentId: treatment.id,
+                date: treatment.date,
+                vasScore: treatment.vasScore as number,
+                bodyRegions: treatment.bodyRegions || []
+            }))
+            .sort((a, b) => (normalizeDate(a.date)?.getTime() ?? 0) - (normalizeDate(b.date)?.getTime() ?? 0));
+
+        const scores = points.map(point => point.vasScore);
+        const summary = scores.length > 0
+            ? {
+                first: scores[0],
+                last: scores[scores.length - 1],
+                change: scores[scores.length - 1] - scores[0],
+                min: Math.min(...scores),
+                max: Math.max(...scores),
+                average: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10
+            }
+            : null;
+
+        return { patientId: patient.id, bodyRegion, points, summary };
+    }
+
+    /**
+     * Apply an update to a treatment, recording a revision when clinical fields change.
+     * Edits are refused once the treatment is locked.
+     */
+    private static async applyChange(
+        existingTreatment: Treatment,
+        updateData: Partial<Treatment>,
+        change: Pick<TreatmentRevision, 'kind' | 'reason' | 'changedBy'>
+    ): Promise<Treatment> {
+        if (!treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const previous = takeSnapshot(existingTreatment);
+        const snapshot = takeSnapshot({ ...existingTreatment, ...updateData });
+        const changedFields = diffSnapshots(previous, snapshot);
+
+        const update: any = { $set: updateData };
+        if (changedFields.length > 0) {
+            if (change.kind === 'edit') {
+                this.assertUnlocked(existingTreatment);
+            }
+
+            const history = existingTreatment.revisions?.length ? existingTreatment.revisions : [buildOriginalRevision(existingTreatment)];
+            const revision: TreatmentRevision = {
+                revision: history[history.length - 1].revision + 1,
+                kind: change.kind,
+                changedAt: updateData.updatedAt ?? new Date(),
+                changedFields,
+                previous: Object.fromEntries(changedFields.map(field => [field, previous[field]])) as Partial<TreatmentSnapshot>,
+                snapshot
+            };
+            if (change.reason) revision.reason = change.reason;
+            if (change.changedBy) revision.changedBy = change.changedBy;
+
+            update.$push = {
+                revisions: { $each: existingTreatment.revisions?.length ? [revision] : [...history, revision] }
+            };
+        }
+
+        // Match the revisions read above, so concurrent changes cannot overwrite each other unrecorded
         const result = await treatmentsCollection.findOneAndUpdate(
-            buildIdQuery(id) as any,
-            { $set: updateData },
+            buildRevisionCountQuery(existingTreatment) as any,
+            update,
             { returnDocument: 'after' }
         );
 
         if (!result) {
-            throw new HTTPError('Treatment not found', 404, 'Not Found');
+            throw new HTTPError('Treatment was changed in the meantime, reload it and try again', 409, 'Conflict');
         }
 
-        return this.normalizeTreatment(result);
+        return result;
+    }
+
+    /**
+     * Reject edits to a locked treatment
+     */
+    private static assertUnlocked(treatment: Treatment): void {
+        const lockedAt = getLockDate(treatment);
+        if (lockedAt <= new Date()) {
+            throw new HTTPError(
+                `Treatment is locked since ${lockedAt.toISOString()}: add an amendment instead`,
+                409,
+                'Conflict',
+                { lockedAt }
+            );
+        }
     }
 
     /**
@@ -133,42 +477,43 @@ export class TreatmentService {
             throw new HTTPError('Treatment not found', 404, 'Not Found');
         }
 
-        // Save files
-        const newAttachments: TreatmentAttachment[] = [];
-        for (const file of files) {
-            const { fileName, filePath } = await saveFile(file);
-            newAttachments.push({
-                type: 'file',
-                data: fileName,
-                path: filePath,
-                originalName: file.name
-            });
-        }
+        this.assertUnlocked(treatment);
+        const newAttachments = await this.saveAttachments(files);
 
         // Update treatment with new attachments
         const existingAttachments = treatment.attachemnts || [];
         const updatedAttachments = [...existingAttachments, ...newAttachments];
 
-        const result = await treatmentsCollection.findOneAndUpdate(
-            buildIdQuery(treatmentId) as any,
-            {
-                $set: {
-                    attachemnts: updatedAttachments,
-                    updatedAt: new Date()
-                }
-            },
-            { returnDocument: 'after' }
-        );
-
-        if (!result) {
-            throw new HTTPError('Treatment not found', 404, 'Not Found');
+        try {
+            await this.applyChange(treatment, { attachemnts: updatedAttachments, updatedAt: new Date() }, { kind: 'edit' });
+        } catch (error) {
+            await deleteAttachmentFiles(newAttachments);
+            throw error;
         }
 
         return newAttachments;
     }
 
     /**
-     * Delete a treatment
+     * Save uploaded files as attachments, not yet linked to any treatment
+     */
+    static async saveAttachments(files: File[]): Promise<TreatmentAttachment[]> {
+        const attachments: TreatmentAttachment[] = [];
+        for (const file of files) {
+            const { fileName, filePath } = await saveFile(file);
+            attachments.push({
+                type: 'file',
+                data: fileName,
+                path: filePath,
+                originalName: file.name,
+                uploadedAt: new Date()
+            });
+        }
+        return attachments;
+    }
+
+    /**
+     * Delete a treatment. Locked treatments are part of the clinical record and cannot be deleted.
      */
     static async deleteTreatment(id: string): Promise<void> {
         if (!treatmentsCollection) {
@@ -181,20 +526,39 @@ export class TreatmentService {
             throw new HTTPError('Treatment not found', 404, 'Not Found');
         }
 
-        // Delete associated attachment files
-        if (treatment.attachemnts && treatment.attachemnts.length > 0) {
-            await deleteAttachmentFiles(treatment.attachemnts);
-        }
+        this.assertUnlocked(treatment);
+
+        // Delete associated attachment files, including those only earlier revisions still reference
+        await deleteAttachmentFiles(collectAttachmentFiles(treatment));
 
         const result = await treatmentsCollection.findOneAndDelete(buildIdQuery(id) as any);
 
         if (!result) {
             throw new HTTPError('Treatment not found', 404, 'Not Found');
         }
+
+        if (result.appointmentId) {
+            await AppointmentService.unlinkTreatment(result.appointmentId, result.id);
+        }
+    }
+
+    /**
+     * Remove the link to a deleted appointment from the treatment recorded for it
+     */
+    static async unlinkAppointment(treatmentId: number, appointmentId: string): Promise<void> {
+        if (!treatmentsCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        await treatmentsCollection.updateOne(
+            { id: treatmentId, appointmentId } as any,
+            { $unset: { appointmentId: '' } }
+        );
     }
 
     /**
-     * Delete a specific attachment from a treatment
+     * Remove a specific attachment from a treatment. The file is kept on disk because earlier
+     * revisions still reference it; it is deleted together with the treatment.
      */
     static async deleteAttachment(treatmentId: string, attachmentName: string): Promise<Treatment> {
         if (!treatmentsCollection) {
@@ -207,20 +571,7 @@ export class TreatmentService {
             throw new HTTPError('Treatment not found', 404, 'Not Found');
         }
 
-        // Find and remove attachment
-        const attachment = treatment.attachemnts?.find(
-            (att) => att.type === 'file' && att.data === attachmentName
-        );
-
-        if (attachment && attachment.type === 'file') {
-            // Delete file from filesystem
-            try {
-                const filePath = attachment.path || attachment.data;
-                await deleteAttachmentFiles([attachment]);
-            } catch (error) {
-                console.error(`Error deleting attachment file ${attachmentName}:`, error);
-            }
-        }
+        this.assertUnlocked(treatment);
 
         // Remove attachment from array
         const updatedAttachemnts = (treatment.attachemnts || []).filter(
@@ -228,21 +579,12 @@ export class TreatmentService {
         );
 
         // Update treatment
-        const result = await treatmentsCollection.findOneAndUpdate(
-            buildIdQuery(treatmentId) as any,
-            {
-                $set: {
-                    attachemnts: updatedAttachemnts,
-                    updatedAt: new Date()
-                }
-            },
-            { returnDocument: 'after' }
+        const result = await this.applyChange(
+            treatment,
+            { attachemnts: updatedAttachemnts, updatedAt: new Date() },
+            { kind: 'edit', reason: `Removed attachment ${attachmentName}` }
         );
 
-        if (!result) {
-            throw new HTTPError('Treatment not found', 404, 'Not Found');
-        }
-
         return this.normalizeTreatment(result);
     }
 
@@ -0,0 +1,244 @@
+import { ObjectId } from 'mongodb';
+import { treatmentTemplatesCollection } from '../database';
+import { Patient, TreatmentTemplate } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors } from '../utils/validation';
+import { calculateAge, normalizeDate } from '../utils/dateUtils';
+import { findPlaceholders, renderTemplate } from '../utils/template';
+import { PatientService } from './patientService';
+import { TreatmentService } from './treatmentService';
+import {
+    TREATMENT_TEMPLATE_PLACEHOLDERS,
+    CreateTreatmentTemplateRequest,
+    UpdateTreatmentTemplateRequest,
+    TreatmentTemplateQueryParams,
+    RenderedTreatmentTemplate,
+    SerializedTreatmentTemplate
+} from '../types/treatmentTemplate';
+
+/**
+ * Serialize treatment template for API response (convert _id to id as string, remove _id)
+ */
+function serializeTemplate(template: TreatmentTemplate): SerializedTreatmentTemplate {
+    const { _id, ...rest } = template;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Reject templates using placeholders that cannot be filled in
+ */
+function assertKnownPlaceholders(content: string): void {
+    const unknown = findPlaceholders(content).filter(name => !(name in TREATMENT_TEMPLATE_PLACEHOLDERS));
+    if (unknown.length > 0) {
+        assertNoFieldErrors([{
+            field: 'content',
+            message: `Unknown placeholders: ${unknown.join(', ')}. Available: ${Object.keys(TREATMENT_TEMPLATE_PLACEHOLDERS).join(', ')}`
+        }]);
+    }
+}
+
+/**
+ * Format a date as Italian day/month/year
+ */
+function formatDate(date: Date | null): string {
+    return date ? date.toLocaleDateString('it-IT', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '';
+}
+
+/**
+ * Service for treatment note templates
+ */
+export class TreatmentTemplateService {
+    /**
+     * Get treatment templates, optionally filtered by category or active state
+     */
+    static async getTemplates(params: TreatmentTemplateQueryParams = {}): Promise<SerializedTreatmentTemplate[]> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.category) query.category = params.category;
+        if (params.active !== undefined) query.active = params.active === 'true';
+
+        const templates = await treatmentTemplatesCollection.find(query).sort({ category: 1, name: 1 }).toArray();
+        return templates.map(serializeTemplate);
+    }
+
+    /**
+     * Get treatment template by ID
+     */
+    static async getTemplateById(id: string): Promise<SerializedTreatmentTemplate> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const template = await treatmentTemplatesCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!template) {
+            throw new HTTPError('Treatment template not found', 404, 'Not Found');
+        }
+
+        return serializeTemplate(template);
+    }
+
+    /**
+     * Create a new treatment template
+     */
+    static async createTemplate(data: CreateTreatmentTemplateRequest): Promise<SerializedTreatmentTemplate> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['name', 'content']);
+        assertKnownPlaceholders(data.content);
+        await this.assertNameAvailable(data.name);
+
+        const now = new Date();
+        const newTemplate: Omit<TreatmentTemplate, '_id'> = {
+            name: data.name,
+            content: data.content,
+            active: data.active ?? true,
+            createdAt: now,
+            updatedAt: now
+        };
+        if (data.category !== undefined) newTemplate.category = data.category;
+
+        const result = await treatmentTemplatesCollection.insertOne(newTemplate);
+        return serializeTemplate({ ...newTemplate, _id: result.insertedId });
+    }
+
+    /**
+     * Update a treatment template; treatments already written from it are not affected
+     */
+    static async updateTemplate(id: string, data: UpdateTreatmentTemplateRequest): Promise<SerializedTreatmentTemplate> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const updateData: Partial<TreatmentTemplate> = {
+            updatedAt: new Date()
+        };
+
+        if (data.name !== undefined) {
+            await this.assertNameAvailable(data.name, id);
+            updateData.name = data.name;
+        }
+        if (data.content !== undefined) {
+            assertKnownPlaceholders(data.content);
+            updateData.content = data.content;
+        }
+        if (data.category !== undefined) updateData.category = data.category;
+        if (data.active !== undefined) updateData.active = Boolean(data.active);
+
+        const result = await treatmentTemplatesCollection.findOneAndUpdate(
+            buildObjectIdQuery(id) as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Treatment template not found', 404, 'Not Found');
+        }
+
+        return serializeTemplate(result);
+    }
+
+    /**
+     * Delete a treatment template
+     */
+    static async deleteTemplate(id: string): Promise<void> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const result = await treatmentTemplatesCollection.findOneAndDelete(buildObjectIdQuery(id) as any);
+
+        if (!result) {
+            throw new HTTPError('Treatment template not found', 404, 'Not Found');
+        }
+    }
+
+    /**
+     * Reject treatments started from templates that do not exist or are inactive
+     */
+    static async assertUsable(id: string): Promise<void> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const template = ObjectId.isValid(id)
+            ? await treatmentTemplatesCollection.findOne(buildObjectIdQuery(id) as any)
+            : null;
+
+        if (!template) {
+            assertNoFieldErrors([{ field: 'templateId', message: `Treatment template ${id} does not exist` }]);
+        } else if (!template.active) {
+            assertNoFieldErrors([{ field: 'templateId', message: `Treatment template ${template.name} is inactive` }]);
+        }
+    }
+
+    /**
+     * Render a template for a patient and treatment date
+     */
+    static async renderTemplate(id: string, patientId: number, date: string | Date = new Date()): Promise<RenderedTreatmentTemplate> {
+        const template = await this.getTemplateById(id);
+        const patient = await PatientService.getPatientById(String(patientId));
+        const values = await this.buildValues(patient, normalizeDate(date) ?? new Date());
+
+        return {
+            templateId: template.id,
+            patientId: patient.id,
+            content: renderTemplate(template.content, values)
+        };
+    }
+
+    /**
+     * Build the placeholder values for a patient, relative to the treatment date
+     */
+    private static async buildValues(patient: Patient, treatmentDate: Date): Promise<Record<string, string>> {
+        const treatments = await TreatmentService.getAllTreatments({ patientId: String(patient.id) });
+        const lastTreatmentDate = treatments
+            .map(treatment => normalizeDate(treatment.date))
+            .filter((date): date is Date => !!date && date < treatmentDate)
+            .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+        const age = patient.dateOfBirth ? calculateAge(patient.dateOfBirth, treatmentDate) : null;
+        const daysAgo = lastTreatmentDate
+            ? Math.floor((treatmentDate.getTime() - lastTreatmentDate.getTime()) / (24 * 60 * 60 * 1000))
+            : null;
+
+        return {
+            'patient.name': patient.name,
+            'patient.surname': patient.surname,
+            'patient.fullName': `${patient.name} ${patient.surname}`,
+            'patient.age': age !== null ? String(age) : '',
+            'patient.dateOfBirth': formatDate(patient.dateOfBirth ? normalizeDate(patient.dateOfBirth) : null),
+            'patient.sex': patient.sex || '',
+            'patient.fiscalCode': patient.fiscalCode || '',
+            'patient.allergies': (patient.anamnesis?.allergies || []).join(', '),
+            'patient.medications': (patient.anamnesis?.currentMedications || []).join(', '),
+            'lastTreatment.date': formatDate(lastTreatmentDate),
+            'lastTreatment.daysAgo': daysAgo !== null ? String(daysAgo) : '',
+            'treatment.date': formatDate(treatmentDate),
+            'today': formatDate(new Date())
+        };
+    }
+
+    /**
+     * Reject template names already used by another template
+     */
+    private static async assertNameAvailable(name: string, excludeId?: string): Promise<void> {
+        if (!treatmentTemplatesCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const existingTemplate = await treatmentTemplatesCollection.findOne({ name });
+        if (existingTemplate && existingTemplate._id?.toString() !== excludeId) {
+            throw new HTTPError(`A template named ${name} already exists`, 409, 'Conflict');
+        }
+    }
+}
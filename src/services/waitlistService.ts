@@ -0,0 +1,624 @@
+import { waitlistCollection, waitlistOffersCollection } from '../database';
+import { Appointment, NotificationChannelName, Patient, TimeRange, WaitlistEntry, WaitlistOffer } from '../models';
+import { HTTPError } from '../utils/errors';
+import { buildObjectIdQuery } from '../utils/queryBuilder';
+import { validateRequiredFields, assertNoFieldErrors, FieldError } from '../utils/validation';
+import { toDateKey, getDayOfWeek } from '../utils/holidays';
+import { CALENDAR_TIMEZONE, getZonedParts } from '../utils/ical';
+import { AppointmentService, DEFAULT_APPOINTMENT_DURATION, validateSchedule } from './appointmentService';
+import { NotificationService, formatAppointmentTime } from './notificationService';
+import { PatientService } from './patientService';
+import { PractitionerService } from './practitionerService';
+import { parseTimeOfDay, isDateKey } from './scheduleService';
+import { NOTIFICATION_CHANNELS } from '../types/patient';
+import {
+    CreateWaitlistEntryRequest,
+    UpdateWaitlistEntryRequest,
+    WaitlistQueryParams,
+    WaitlistOfferQueryParams,
+    SerializedWaitlistEntry,
+    SerializedWaitlistOffer,
+    AcceptedWaitlistOffer,
+    WAITLIST_ENTRY_STATUSES,
+    WAITLIST_OFFER_STATUSES
+} from '../types/waitlist';
+
+/**
+ * Minutes a patient has to accept an offered slot (never past the slot itself)
+ */
+const OFFER_TTL_MINUTES = Number(process.env.WAITLIST_OFFER_TTL) || 120;
+
+/**
+ * How often expired offers are passed on to the next patient
+ */
+const POLL_INTERVAL_SECONDS = Number(process.env.WAITLIST_POLL_INTERVAL) || 60;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * A slot freed by a cancelled or deleted appointment
+ */
+type FreedSlot = Pick<Appointment, 'patientId' | 'date' | 'duration' | 'practitionerId' | 'roomId'> & { id: string };
+
+/**
+ * Serialize waitlist entry for API response (convert _id to id as string, remove _id)
+ */
+function serializeEntry(entry: WaitlistEntry): SerializedWaitlistEntry {
+    const { _id, ...rest } = entry;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Serialize waitlist offer for API response (convert _id to id as string, remove _id)
+ */
+function serializeOffer(offer: WaitlistOffer): SerializedWaitlistOffer {
+    const { _id, ...rest } = offer;
+    return {
+        ...rest,
+        id: _id?.toString() || ''
+    };
+}
+
+/**
+ * Validate the slot preferences of a waitlist entry
+ */
+function validatePreferences(data: UpdateWaitlistEntryRequest): FieldError[] {
+    const errors: FieldError[] = [];
+
+    if (data.duration !== undefined) {
+        try {
+            validateSchedule(new Date(), data.duration);
+        } catch (error) {
+            if (!(error instanceof HTTPError)) throw error;
+            errors.push({ field: 'duration', message: error.message });
+        }
+    }
+    if (data.preferredDays !== undefined) {
+        if (!Array.isArray(data.preferredDays) || data.preferredDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+            errors.push({ field: 'preferredDays', message: 'Preferred days must be weekdays from 0 (Sunday) to 6 (Saturday)' });
+        }
+    }
+    if (data.preferredTimes !== undefined) {
+        if (!Array.isArray(data.preferredTimes)) {
+            errors.push({ field: 'preferredTimes', message: 'Preferred times must be a list of time ranges' });
+        } else {
+            data.preferredTimes.forEach((range: TimeRange, index) => {
+                const start = parseTimeOfDay(range?.start);
+                const end = parseTimeOfDay(range?.end);
+                if (start === null || end === null || start >= end) {
+                    errors.push({ field: `preferredTimes[${index}]`, message: 'Time ranges need a start before their end, as HH:MM' });
+                }
+            });
+        }
+    }
+    for (const field of ['earliestDate', 'latestDate'] as const) {
+        if (data[field] !== undefined && !isDateKey(data[field])) {
+            errors.push({ field, message: `${field} must be a YYYY-MM-DD date` });
+        }
+    }
+    if (data.earliestDate && data.latestDate && data.earliestDate > data.latestDate) {
+        errors.push({ field: 'latestDate', message: 'latestDate must not be before earliestDate' });
+    }
+    if (data.priority !== undefined && !Number.isInteger(data.priority)) {
+        errors.push({ field: 'priority', message: 'Priority must be an integer' });
+    }
+
+    return errors;
+}
+
+/**
+ * Check whether a freed slot satisfies a waitlist entry's preferences, read in the clinic's time zone
+ */
+function matchesSlot(entry: WaitlistEntry, slot: FreedSlot): boolean {
+    const start = new Date(slot.date);
+    const parts = getZonedParts(start, CALENDAR_TIMEZONE);
+    const startMinutes = Number(parts.hour) * 60 + Number(parts.minute);
+    const day = toDateKey(start);
+
+    if (entry.patientId === slot.patientId) return false;
+    if (entry.duration > (slot.duration ?? DEFAULT_APPOINTMENT_DURATION)) return false;
+    if (entry.practitionerId && entry.practitionerId !== slot.practitionerId) return false;
+    if (entry.earliestDate && day < entry.earliestDate) return false;
+    if (entry.latestDate && day > entry.latestDate) return false;
+    if (entry.preferredDays?.length && !entry.preferredDays.includes(getDayOfWeek(start))) return false;
+    if (entry.preferredTimes?.length) {
+        return entry.preferredTimes.some(range =>
+            parseTimeOfDay(range.start)! <= startMinutes && startMinutes + entry.duration <= parseTimeOfDay(range.end)!
+        );
+    }
+
+    return true;
+}
+
+/**
+ * Service for the appointment waitlist and the slot offers made from it
+ */
+export class WaitlistService {
+    /**
+     * Start passing expired offers on to the next patient in line
+     */
+    static start(): void {
+        if (timer) return;
+
+        timer = setInterval(() => {
+            this.expireOffers().catch(error => console.error('Error expiring waitlist offers:', error));
+        }, POLL_INTERVAL_SECONDS * 1000);
+    }
+
+    /**
+     * Stop checking for expired offers
+     */
+    static stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    }
+
+    /**
+     * Get waitlist entries in priority order
+     */
+    static async getEntries(params: WaitlistQueryParams = {}): Promise<SerializedWaitlistEntry[]> {
+        if (!waitlistCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.status) {
+            if (!WAITLIST_ENTRY_STATUSES.includes(params.status as any)) {
+                throw new HTTPError(`Invalid status: ${params.status}. Allowed: ${WAITLIST_ENTRY_STATUSES.join(', ')}`, 400, 'Validation Error');
+            }
+            query.status = params.status;
+        }
+        if (params.patientId) query.patientId = parseInt(params.patientId);
+        if (params.practitionerId) query.practitionerId = params.practitionerId;
+
+        const entries = await waitlistCollection.find(query).sort({ priority: -1, createdAt: 1 }).toArray();
+        return entries.map(serializeEntry);
+    }
+
+    /**
+     * Get a waitlist entry by id
+     */
+    static async getEntryById(id: string): Promise<SerializedWaitlistEntry> {
+        return serializeEntry(await this.findEntry(id));
+    }
+
+    /**
+     * Add a patient to the waitlist
+     */
+    static async createEntry(data: CreateWaitlistEntryRequest): Promise<SerializedWaitlistEntry> {
+        if (!waitlistCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        validateRequiredFields(data, ['patientId']);
+        const patientId = Number(data.patientId);
+        if (!Number.isInteger(patientId) || !(await PatientService.patientExists(patientId))) {
+            assertNoFieldErrors([{ field: 'patientId', message: `Patient ${data.patientId} does not exist` }]);
+        }
+        assertNoFieldErrors(validatePreferences(data));
+        await PractitionerService.assertAssignable(data.practitionerId);
+
+        const now = new Date();
+        const newEntry: Omit<WaitlistEntry, '_id'> = {
+            patientId,
+            duration: data.duration ?? DEFAULT_APPOINTMENT_DURATION,
+            priority: data.priority ?? 0,
+            status: 'waiting',
+            createdAt: now,
+            updatedAt: now
+        };
+        if (data.practitionerId) newEntry.practitionerId = data.practitionerId;
+        if (data.preferredDays !== undefined) newEntry.preferredDays = data.preferredDays;
+        if (data.preferredTimes !== undefined) newEntry.preferredTimes = data.preferredTimes.map(({ start, end }) => ({ start, end }));
+        if (data.earliestDate !== undefined) newEntry.earliestDate = data.earliestDate;
+        if (data.latestDate !== undefined) newEntry.latestDate = data.latestDate;
+        if (data.notes !== undefined) newEntry.notes = data.notes;
+
+        const result = await waitlistCollection.insertOne(newEntry);
+        return serializeEntry({ ...newEntry, _id: result.insertedId });
+    }
+
+    /**
+     * Update the preferences of a waitlist entry
+     */
+    static async updateEntry(id: string, data: UpdateWaitlistEntryRequest): Promise<SerializedWaitlistEntry> {
+        if (!waitlistCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const existingEntry = await this.findEntry(id);
+        if (existingEntry.status === 'booked' || existingEntry.status === 'cancelled') {
+            throw new HTTPError(`Cannot update a ${existingEntry.status} waitlist entry`, 409, 'Conflict');
+        }
+
+        assertNoFieldErrors(validatePreferences({
+            earliestDate: existingEntry.earliestDate,
+            latestDate: existingEntry.latestDate,
+            ...data
+        }));
+        if (data.practitionerId) {
+            await PractitionerService.assertAssignable(data.practitionerId);
+        }
+
+        const updateData: Partial<WaitlistEntry> = {
+            updatedAt: new Date()
+        };
+
+        if (data.duration !== undefined) updateData.duration = data.duration;
+        if (data.practitionerId !== undefined) updateData.practitionerId = data.practitionerId || null;
+        if (data.preferredDays !== undefined) updateData.preferredDays = data.preferredDays;
+        if (data.preferredTimes !== undefined) updateData.preferredTimes = data.preferredTimes.map(({ start, end }) => ({ start, end }));
+        if (data.earliestDate !== undefined) updateData.earliestDate = data.earliestDate;
+        if (data.latestDate !== undefined) updateData.latestDate = data.latestDate;
+        if (data.priority !== undefined) updateData.priority = data.priority;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+
+        const result = await waitlistCollection.findOneAndUpdate(
+            buildObjectIdQuery(id) as any,
+            { $set: updateData },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            throw new HTTPError('Waitlist entry not found', 404, 'Not Found');
+        }
+
+        return serializeEntry(result);
+    }
+
+    /**
+     * Take a patient off the waitlist; a pending offer is withdrawn and passed on
+     */
+    static async cancelEntry(id: string): Promise<SerializedWaitlistEntry> {
+        if (!waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const result = await waitlistCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), status: { $in: ['waiting', 'offered'] } } as any,
+            { $set: { status: 'cancelled', updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!result) {
+            const existingEntry = await this.findEntry(id);
+            throw new HTTPError(`Waitlist entry is already ${existingEntry.status}`, 409, 'Conflict');
+        }
+
+        const offer = await waitlistOffersCollection.findOneAndUpdate(
+            { entryId: id, status: 'pending' },
+            { $set: { status: 'withdrawn', respondedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+        if (offer) {
+            await this.passOn(offer);
+        }
+
+        return serializeEntry(result);
+    }
+
+    /**
+     * Take a deleted patient off the waitlist: their entries are cancelled and pending offers passed on
+     */
+    static async cancelPatientEntries(patientId: number): Promise<void> {
+        if (!waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        await waitlistCollection.updateMany(
+            { patientId, status: { $in: ['waiting', 'offered'] } },
+            { $set: { status: 'cancelled', updatedAt: now } }
+        );
+
+        const offers = await waitlistOffersCollection.find({ patientId, status: 'pending' }).toArray();
+        for (const offer of offers) {
+            const withdrawn = await waitlistOffersCollection.findOneAndUpdate(
+                { _id: offer._id, status: 'pending' } as any,
+                { $set: { status: 'withdrawn', respondedAt: now } },
+                { returnDocument: 'after' }
+            );
+            if (withdrawn) {
+                await this.passOn(withdrawn);
+            }
+        }
+    }
+
+    /**
+     * Get slot offers, newest first
+     */
+    static async getOffers(params: WaitlistOfferQueryParams = {}): Promise<SerializedWaitlistOffer[]> {
+        if (!waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const query: any = {};
+        if (params.status) {
+            if (!WAITLIST_OFFER_STATUSES.includes(params.status as any)) {
+                throw new HTTPError(`Invalid status: ${params.status}. Allowed: ${WAITLIST_OFFER_STATUSES.join(', ')}`, 400, 'Validation Error');
+            }
+            query.status = params.status;
+        }
+        if (params.patientId) query.patientId = parseInt(params.patientId);
+        if (params.entryId) query.entryId = params.entryId;
+
+        const offers = await waitlistOffersCollection.find(query).sort({ createdAt: -1 }).toArray();
+        return offers.map(serializeOffer);
+    }
+
+    /**
+     * Offer a freed slot to the first matching waitlist entry in priority order.
+     * Entries already offered this slot are passed over.
+     */
+    static async offerFreedSlot(slot: FreedSlot): Promise<SerializedWaitlistOffer | null> {
+        if (!waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        if (new Date(slot.date) <= now) return null;
+
+        // Someone may have booked the slot in the meantime; the patient who freed it no longer matters
+        const conflicts = await AppointmentService.findConflicts({
+            date: slot.date,
+            duration: slot.duration ?? DEFAULT_APPOINTMENT_DURATION,
+            practitionerId: slot.practitionerId,
+            roomId: slot.roomId
+        });
+        if (conflicts.length > 0) return null;
+
+        const previousOffers = await waitlistOffersCollection.find({ sourceAppointmentId: slot.id }).toArray();
+        const offeredEntryIds = new Set(previousOffers.map(offer => offer.entryId));
+
+        const entries = await waitlistCollection.find({ status: 'waiting' }).sort({ priority: -1, createdAt: 1 }).toArray();
+        const patientIds = Array.from(new Set(entries.map(entry => entry.patientId)));
+        const activePatientIds = new Set((await PatientService.getPatientsByIds(patientIds))
+            .filter(patient => !patient.anonymisedAt)
+            .map(patient => patient.id));
+
+        for (const entry of entries) {
+            const entryId = entry._id!.toString();
+            if (offeredEntryIds.has(entryId) || !activePatientIds.has(entry.patientId) || !matchesSlot(entry, slot)) continue;
+
+            // Claim the entry so it never holds two offers at once
+            const claimed = await waitlistCollection.findOneAndUpdate(
+                { _id: entry._id, status: 'waiting' } as any,
+                { $set: { status: 'offered', updatedAt: now } }
+            );
+            if (!claimed) continue;
+
+            const offer: Omit<WaitlistOffer, '_id'> = {
+                entryId,
+                patientId: entry.patientId,
+                sourceAppointmentId: slot.id,
+                date: new Date(slot.date),
+                duration: entry.duration,
+                slotDuration: slot.duration ?? DEFAULT_APPOINTMENT_DURATION,
+                practitionerId: slot.practitionerId ?? null,
+                roomId: slot.roomId ?? null,
+                status: 'pending',
+                expiresAt: new Date(Math.min(now.getTime() + OFFER_TTL_MINUTES * 60 * 1000, new Date(slot.date).getTime())),
+                createdAt: now
+            };
+            const result = await waitlistOffersCollection.insertOne(offer);
+            const created: WaitlistOffer = { ...offer, _id: result.insertedId };
+
+            const notifiedVia = await this.notifyPatient(created);
+            if (notifiedVia.length > 0) {
+                created.notifiedVia = notifiedVia;
+                await waitlistOffersCollection.updateOne({ _id: result.insertedId }, { $set: { notifiedVia } });
+            }
+
+            return serializeOffer(created);
+        }
+
+        return null;
+    }
+
+    /**
+     * Accept a pending offer, booking the appointment for the waitlisted patient
+     */
+    static async acceptOffer(id: string): Promise<AcceptedWaitlistOffer> {
+        if (!waitlistCollection || !waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        const offer = await waitlistOffersCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), status: 'pending', expiresAt: { $gt: now } } as any,
+            { $set: { status: 'accepted', respondedAt: now } },
+            { returnDocument: 'after' }
+        );
+
+        if (!offer) {
+            await this.assertOfferPending(id, now);
+            throw new HTTPError('Offer is no longer pending', 409, 'Conflict');
+        }
+
+        let appointment: AcceptedWaitlistOffer['appointment'];
+        try {
+            // The freed slot was already accepted by the schedule, so only conflicts are re-checked
+            appointment = await AppointmentService.createAppointment({
+                patientId: offer.patientId,
+                date: offer.date,
+                duration: offer.duration,
+                practitionerId: offer.practitionerId,
+                roomId: offer.roomId,
+                allowOutsideHours: true
+            });
+        } catch (error) {
+            await waitlistOffersCollection.updateOne({ _id: offer._id } as any, { $set: { status: 'withdrawn' } });
+            await waitlistCollection.updateOne(
+                { ...buildObjectIdQuery(offer.entryId), status: 'offered' } as any,
+                { $set: { status: 'waiting', updatedAt: now } }
+            );
+            if (error instanceof HTTPError && error.statusCode === 409) {
+                throw new HTTPError('The offered slot is no longer available', 409, 'Conflict', error.details);
+            }
+            throw error;
+        }
+
+        await waitlistOffersCollection.updateOne({ _id: offer._id } as any, { $set: { appointmentId: appointment.id } });
+        await waitlistCollection.updateOne(
+            buildObjectIdQuery(offer.entryId) as any,
+            { $set: { status: 'booked', appointmentId: appointment.id, updatedAt: now } }
+        );
+
+        return { offer: serializeOffer({ ...offer, appointmentId: appointment.id }), appointment };
+    }
+
+    /**
+     * Decline a pending offer: the patient stays on the waitlist and the slot is offered to the next entry
+     */
+    static async declineOffer(id: string): Promise<SerializedWaitlistOffer> {
+        if (!waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const now = new Date();
+        const offer = await waitlistOffersCollection.findOneAndUpdate(
+            { ...buildObjectIdQuery(id), status: 'pending', expiresAt: { $gt: now } } as any,
+            { $set: { status: 'declined', respondedAt: now } },
+            { returnDocument: 'after' }
+        );
+
+        if (!offer) {
+            await this.assertOfferPending(id, now);
+            throw new HTTPError('Offer is no longer pending', 409, 'Conflict');
+        }
+
+        await this.releaseEntry(offer);
+        await this.passOn(offer);
+
+        return serializeOffer(offer);
+    }
+
+    /**
+     * Expire pending offers past their deadline and pass their slots on; returns the number expired
+     */
+    static async expireOffers(now: Date = new Date()): Promise<number> {
+        if (!waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const due = await waitlistOffersCollection.find({ status: 'pending', expiresAt: { $lte: now } }).toArray();
+        let expired = 0;
+
+        for (const candidate of due) {
+            const offer = await waitlistOffersCollection.findOneAndUpdate(
+                { _id: candidate._id, status: 'pending' } as any,
+                { $set: { status: 'expired' } },
+                { returnDocument: 'after' }
+            );
+            if (!offer) continue;
+
+            expired++;
+            await this.releaseEntry(offer);
+            await this.passOn(offer);
+        }
+
+        return expired;
+    }
+
+    /**
+     * Find a waitlist entry or throw 404
+     */
+    private static async findEntry(id: string): Promise<WaitlistEntry> {
+        if (!waitlistCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const entry = await waitlistCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!entry) {
+            throw new HTTPError('Waitlist entry not found', 404, 'Not Found');
+        }
+
+        return entry;
+    }
+
+    /**
+     * Explain why an offer cannot be answered: missing, expired or already answered
+     */
+    private static async assertOfferPending(id: string, now: Date): Promise<void> {
+        if (!waitlistOffersCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        const offer = await waitlistOffersCollection.findOne(buildObjectIdQuery(id) as any);
+
+        if (!offer) {
+            throw new HTTPError('Offer not found', 404, 'Not Found');
+        }
+        if (offer.status === 'pending' && offer.expiresAt <= now) {
+            throw new HTTPError('Offer has expired', 409, 'Conflict');
+        }
+        if (offer.status !== 'pending') {
+            throw new HTTPError(`Offer is already ${offer.status}`, 409, 'Conflict');
+        }
+    }
+
+    /**
+     * Put the entry of an unanswered or declined offer back on the waitlist
+     */
+    private static async releaseEntry(offer: WaitlistOffer): Promise<void> {
+        if (!waitlistCollection) {
+            throw new HTTPError('Database not initialized', 500, 'Database Error');
+        }
+
+        await waitlistCollection.updateOne(
+            { ...buildObjectIdQuery(offer.entryId), status: 'offered' } as any,
+            { $set: { status: 'waiting', updatedAt: new Date() } }
+        );
+    }
+
+    /**
+     * Offer the slot of a closed offer to the next matching entry
+     */
+    private static async passOn(offer: WaitlistOffer): Promise<void> {
+        // Deleted source appointments are gone; the slot itself is kept on the offer
+        const source = await AppointmentService.getAppointmentById(offer.sourceAppointmentId).catch(() => null);
+
+        await this.offerFreedSlot({
+            id: offer.sourceAppointmentId,
+            patientId: source?.patientId ?? offer.patientId,
+            date: offer.date,
+            duration: offer.slotDuration,
+            practitionerId: offer.practitionerId,
+            roomId: offer.roomId
+        });
+    }
+
+    /**
+     * Tell the patient about an offer on every channel they have not opted out of
+     */
+    private static async notifyPatient(offer: WaitlistOffer): Promise<NotificationChannelName[]> {
+        let patient: Patient;
+        try {
+            patient = await PatientService.getPatientById(offer.patientId.toString());
+        } catch {
+            return [];
+        }
+        if (patient.anonymisedAt) return [];
+
+        const { day, time } = formatAppointmentTime(offer.date);
+        const deadline = formatAppointmentTime(offer.expiresAt);
+        const message = {
+            subject: `Disponibilità anticipata: ${day} alle ${time}`,
+            text: `Gentile ${patient.name}, si è liberato un posto ${day} alle ${time}. `
+                + `Se desidera anticipare il suo appuntamento, ci contatti entro ${deadline.day} alle ${deadline.time}.`
+        };
+
+        const notified: NotificationChannelName[] = [];
+        for (const channel of NOTIFICATION_CHANNELS) {
+            const result = await NotificationService.send(channel, patient, message);
+            if (result.status === 'sent') notified.push(channel);
+        }
+        return notified;
+    }
+}
@@ -7,20 +7,36 @@ export type ApiMeta = {
     message: string
     description: string
     context: string
+    pagination?: PaginationMeta
+}
+
+export type PaginationMeta = {
+    total: number
+    limit: number
+    page?: number
+    nextCursor: string | null
+    hasMore: boolean
+}
+
+export type PaginatedResult<T> = {
+    items: T[]
+    pagination: PaginationMeta
 }
 
 export type ApiError = {
     error: {
         code: string
         message: string
+        details?: unknown
     }
 }
 
-export function createApiError(code: string = "Server Error", message: string) : ApiError {
+export function createApiError(code: string = "Server Error", message: string, details?: unknown) : ApiError {
     return {
         error: {
             code: code,
-            message: message
+            message: message,
+            details: details
         }
     }
 }
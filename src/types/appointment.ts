@@ -1,13 +1,29 @@
-import { Appointment } from '../models';
+import { Appointment, AppointmentStatus, Treatment, TreatmentAttachment } from '../models';
+import { CreateTreatmentRequest } from './treatment';
 
 export interface CreateAppointmentRequest {
     patientId: number;
     date: string | Date;
+    duration?: number; // Minutes
+    endDate?: string | Date; // Alternative to duration
+    practitionerId?: string | null;
+    roomId?: string | null;
+    planId?: string | null; // Treatment plan the visit is booked under
+    allowOverlap?: boolean; // Explicitly allow overbooking an occupied slot
+    allowOutsideHours?: boolean; // Explicitly allow booking outside working hours
+    sourceUid?: string; // UID of the calendar event the appointment is imported from; set by the import only
 }
 
 export interface UpdateAppointmentRequest {
     patientId?: number;
     date?: string | Date;
+    duration?: number; // Minutes
+    endDate?: string | Date; // Alternative to duration
+    practitionerId?: string | null;
+    roomId?: string | null;
+    planId?: string | null;
+    allowOverlap?: boolean; // Explicitly allow overbooking an occupied slot
+    allowOutsideHours?: boolean; // Explicitly allow booking outside working hours
 }
 
 export interface AppointmentQueryParams {
@@ -15,9 +31,60 @@ export interface AppointmentQueryParams {
     date?: string;
     startDate?: string;
     endDate?: string;
+    status?: string; // Comma-separated list of statuses
+    seriesId?: string;
+    practitionerId?: string;
+    roomId?: string;
+    planId?: string;
+}
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed', 'cancelled', 'no-show', 'completed'];
+
+export interface CancelAppointmentRequest {
+    reason?: string;
+}
+
+export interface CompleteAppointmentRequest extends Pick<CreateTreatmentRequest, 'bodyRegions' | 'vasScore' | 'techniques' | 'sessionDuration' | 'soap'> {
+    content?: string; // Treatment notes, can be filled in later
+    attachemnts?: TreatmentAttachment[];
+    practitionerId?: string | null; // Defaults to the appointment's practitioner
+    roomId?: string | null; // Defaults to the appointment's room
+}
+
+export interface CompletedAppointment {
+    appointment: Omit<Appointment, '_id' | 'reminderClaims'> & { id: string };
+    treatment: Treatment;
 }
 
 export interface AppointmentResponse {
     appointment: Appointment | null;
 }
 
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export const SERIES_EDIT_SCOPES: SeriesEditScope[] = ['this', 'following', 'all'];
+
+export interface CreateAppointmentSeriesRequest {
+    patientId: number;
+    date: string | Date; // Start of the first occurrence
+    duration?: number; // Minutes
+    practitionerId?: string | null;
+    roomId?: string | null;
+    rrule: string;
+    exdates?: (string | Date)[];
+    allowOverlap?: boolean;
+    allowOutsideHours?: boolean;
+}
+
+export interface UpdateAppointmentSeriesRequest {
+    scope: SeriesEditScope;
+    occurrenceDate?: string | Date; // Original start of the selected occurrence (required for this/following)
+    date?: string | Date; // New start of the selected occurrence, or of the series for "all"
+    duration?: number;
+    patientId?: number;
+    practitionerId?: string | null;
+    roomId?: string | null;
+    rrule?: string; // Only for following/all
+    allowOverlap?: boolean;
+    allowOutsideHours?: boolean;
+}
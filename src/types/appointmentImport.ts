@@ -0,0 +1,39 @@
+import { Appointment } from '../models';
+
+export type PatientMatchMethod = 'fiscalCode' | 'email' | 'name';
+
+export interface AppointmentImportOptions {
+    dryRun?: boolean; // Report what would happen without creating anything
+    allowOverlap?: boolean;
+    allowOutsideHours?: boolean;
+}
+
+export interface ImportedEventSummary {
+    uid?: string;
+    summary: string;
+    start: Date | null;
+    end: Date | null;
+}
+
+export interface MatchedImportEvent extends ImportedEventSummary {
+    patientId: number;
+    matchedBy: PatientMatchMethod;
+    conflicts: Array<Omit<Appointment, '_id'> & { id: string }>; // Existing appointments overlapping the event
+    outsideWorkingHours: boolean;
+    appointmentId?: string; // Set once created
+    error?: string; // Why the appointment could not be created
+}
+
+export interface UnmatchedImportEvent extends ImportedEventSummary {
+    reason: string;
+    candidatePatientIds?: number[]; // Patients matching ambiguously
+}
+
+export interface AppointmentImportReport {
+    dryRun: boolean;
+    totalEvents: number;
+    created: number;
+    matched: MatchedImportEvent[];
+    unmatched: UnmatchedImportEvent[];
+    skipped: UnmatchedImportEvent[]; // Cancelled, all-day, recurring or already imported events
+}
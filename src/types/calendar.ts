@@ -0,0 +1,23 @@
+import { CalendarFeed, CalendarFeedScope } from '../models';
+
+export const CALENDAR_FEED_SCOPES: CalendarFeedScope[] = ['clinic', 'patient', 'practitioner'];
+
+export interface CreateCalendarFeedRequest {
+    scope: CalendarFeedScope;
+    patientId?: number; // Required for patient feeds
+    practitionerId?: string; // Required for practitioner feeds
+    label?: string;
+}
+
+export type SerializedCalendarFeed = Omit<CalendarFeed, '_id' | 'tokenHash'> & { id: string };
+
+export interface CreatedCalendarFeed {
+    feed: SerializedCalendarFeed;
+    token: string; // Shown only once
+    url: string; // Subscription path including the token
+}
+
+export interface CalendarExport {
+    fileName: string;
+    content: string;
+}
@@ -0,0 +1,32 @@
+import { ConsentType } from '../models';
+
+export const CONSENT_TYPES: ConsentType[] = ['privacy', 'treatment', 'ai-processing'];
+
+export interface CreateConsentTemplateRequest {
+    type: ConsentType;
+    title: string;
+    content: string;
+}
+
+export interface GrantConsentRequest {
+    type: ConsentType;
+    version?: number; // Defaults to the latest template version
+    grantedAt?: string | Date;
+}
+
+export interface RevokeConsentRequest {
+    reason?: string;
+}
+
+export type ConsentStatus = 'granted' | 'revoked' | 'missing';
+
+export interface ConsentState {
+    type: ConsentType;
+    status: ConsentStatus;
+    version: number | null; // Version the patient accepted, if any
+    latestVersion: number | null; // Latest available template version
+    upToDate: boolean; // Granted on the latest template version
+    grantedAt: Date | null;
+    revokedAt: Date | null;
+    consentId: string | null;
+}
@@ -0,0 +1,19 @@
+export interface ExportManifestFile {
+    path: string;
+    size: number;
+    checksum: string;
+}
+
+export interface ExportManifest {
+    patientId: number;
+    generatedAt: string;
+    algorithm: 'sha256';
+    files: ExportManifestFile[];
+    missingFiles: { treatmentId?: number; consentId?: string; attachment: string }[]; // Referenced attachments not found on disk
+}
+
+export interface PatientExport {
+    fileName: string;
+    content: Buffer;
+    manifest: ExportManifest;
+}
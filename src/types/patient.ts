@@ -1,15 +1,18 @@
-import { Patient } from '../models';
+import { Patient, Anamnesis, AnamnesisRevision, NotificationChannelName } from '../models';
 
 export interface CreatePatientRequest {
-    id: number;
+    id?: number; // Deprecated: ids are assigned by the server when omitted
     name: string;
     surname: string;
     email: string;
     phoneNumber: string;
     dateOfBirth?: string;
+    sex?: 'M' | 'F';
+    birthPlaceCode?: string;
     address?: string;
     fiscalCode: string;
     anamnesi?: string;
+    anamnesis?: Partial<Anamnesis>;
     treatments?: any[];
 }
 
@@ -19,13 +22,91 @@ export interface UpdatePatientRequest {
     email?: string;
     phoneNumber?: string;
     dateOfBirth?: string;
+    sex?: 'M' | 'F';
+    birthPlaceCode?: string;
     address?: string;
     fiscalCode?: string;
     anamnesi?: string;
+    anamnesis?: Partial<Anamnesis>;
     treatments?: any[];
 }
 
+export type PatientSortField = 'surname' | 'name' | 'id' | 'createdAt' | 'dateOfBirth';
+
+export interface PatientQueryParams {
+    q?: string;
+    sortBy?: string;
+    sortOrder?: string;
+    page?: string;
+    limit?: string;
+    cursor?: string;
+}
+
 export interface PatientResponse {
     patient: Patient | null;
 }
 
+export interface PatientPurgeReport {
+    patientId: number;
+    treatmentsDeleted: number;
+    appointmentsDeleted: number;
+    appointmentSeriesDeleted: number;
+    treatmentPlansDeleted: number;
+    aiSummariesDeleted: number;
+    consentsDeleted: number;
+    filesDeleted: number;
+}
+
+export type DuplicateField = 'name' | 'surname' | 'dateOfBirth' | 'phoneNumber' | 'fiscalCode';
+
+export interface DuplicateQueryParams {
+    threshold?: string;
+    limit?: string;
+}
+
+export interface DuplicateCandidate {
+    patients: [Patient, Patient];
+    score: number;
+    fieldScores: Partial<Record<DuplicateField, number>>;
+}
+
+export interface MergePatientRequest {
+    duplicateId: number | string;
+}
+
+export interface PatientMergeResult {
+    patient: Patient;
+    treatmentsMoved: number;
+    appointmentsMoved: number;
+}
+
+export interface AnonymisationReport {
+    patientId: number;
+    treatmentsScrubbed: number;
+    treatmentPlansScrubbed: number;
+    aiSummariesScrubbed: number;
+    filesDeleted: number;
+    anonymisedAt: Date;
+}
+
+export interface UpdateAnamnesisRequest extends Partial<Anamnesis> {
+    anamnesi?: string;
+}
+
+export interface PatientAnamnesis {
+    patientId: number;
+    anamnesis: Anamnesis;
+    anamnesi: string; // Legacy free text
+    history: AnamnesisRevision[];
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = ['email', 'sms'];
+
+export interface ReminderPreferences {
+    patientId: number;
+    optOut: NotificationChannelName[]; // Channels the patient receives no reminders on
+}
+
+export interface UpdateReminderPreferencesRequest {
+    optOut: NotificationChannelName[];
+}
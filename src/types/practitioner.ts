@@ -0,0 +1,27 @@
+import { Practitioner } from '../models';
+
+export interface CreatePractitionerRequest {
+    name: string;
+    surname: string;
+    email?: string;
+    phoneNumber?: string;
+    specialty?: string;
+    active?: boolean; // Defaults to true
+}
+
+export interface UpdatePractitionerRequest {
+    name?: string;
+    surname?: string;
+    email?: string;
+    phoneNumber?: string;
+    specialty?: string;
+    active?: boolean;
+}
+
+export interface PractitionerQueryParams {
+    active?: string; // "true" or "false"
+}
+
+export interface PractitionerResponse {
+    practitioner: Practitioner | null;
+}
@@ -0,0 +1,21 @@
+import { Room } from '../models';
+
+export interface CreateRoomRequest {
+    name: string;
+    description?: string;
+    active?: boolean; // Defaults to true
+}
+
+export interface UpdateRoomRequest {
+    name?: string;
+    description?: string;
+    active?: boolean;
+}
+
+export interface RoomQueryParams {
+    active?: string; // "true" or "false"
+}
+
+export interface RoomResponse {
+    room: Room | null;
+}
@@ -0,0 +1,43 @@
+import { DaySchedule } from '../models';
+
+export interface UpdateWorkingHoursRequest {
+    weekly?: (DaySchedule | null)[]; // Seven entries, 0 = Sunday; null on closed days
+    observeNationalHolidays?: boolean;
+    slotInterval?: number; // Minutes
+}
+
+export interface CreateClosureRequest {
+    startDate: string; // YYYY-MM-DD
+    endDate?: string; // YYYY-MM-DD, defaults to startDate
+    reason?: string;
+}
+
+export interface ClosureQueryParams {
+    from?: string; // YYYY-MM-DD
+    to?: string; // YYYY-MM-DD
+}
+
+export interface SlotQueryParams {
+    date?: string;
+    duration?: string; // Minutes
+    practitionerId?: string;
+    roomId?: string;
+}
+
+export interface TimeSlot {
+    start: Date;
+    end: Date;
+}
+
+export interface DayAvailability {
+    date: string; // YYYY-MM-DD
+    open: boolean;
+    reason?: string; // Why the clinic is closed
+    intervals: TimeSlot[]; // Opening hours net of breaks
+}
+
+export interface HolidayEntry {
+    date: string; // YYYY-MM-DD
+    name: string;
+    source: 'national' | 'closure';
+}
@@ -0,0 +1,32 @@
+import { TextHighlight } from '../utils/textSearch';
+
+export type SearchResultType = 'treatment' | 'anamnesis';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['treatment', 'anamnesis'];
+
+export interface SearchQueryParams {
+    q?: string; // MongoDB text search syntax: words, "exact phrases", -excluded
+    types?: string; // Comma-separated list of result types
+    patientId?: string;
+    page?: string;
+    limit?: string;
+}
+
+export interface SearchResult {
+    type: SearchResultType;
+    score: number; // Text relevance, higher is better
+    patient: {
+        id: number;
+        name: string;
+        surname: string;
+    };
+    treatmentId?: number;
+    date?: string | Date; // Treatment date
+    field: string; // Field the snippet was taken from, e.g. content, soap.plan, anamnesi
+    snippet: string;
+    highlights: TextHighlight[]; // Matched words, as offsets into the snippet
+    links: {
+        patient: string;
+        treatment?: string;
+    };
+}
@@ -0,0 +1,22 @@
+export type TimelineEventType = 'registration' | 'treatment' | 'appointment' | 'attachment' | 'anamnesis';
+
+export const TIMELINE_EVENT_TYPES: TimelineEventType[] = ['registration', 'treatment', 'appointment', 'attachment', 'anamnesis'];
+
+export interface TimelineQueryParams {
+    types?: string; // Comma-separated list of event types
+    startDate?: string;
+    endDate?: string;
+    order?: string; // asc or desc (default)
+    page?: string;
+    limit?: string;
+}
+
+export interface TimelineEvent {
+    type: TimelineEventType;
+    date: Date;
+    title: string;
+    treatmentId?: number;
+    appointmentId?: string;
+    revision?: number;
+    data?: unknown;
+}
@@ -1,11 +1,21 @@
-import { Treatment, TreatmentAttachment } from '../models';
+import { BodyRegion, SoapNote, Treatment, TreatmentAttachment, TreatmentRevision, TreatmentRevisionField } from '../models';
 
 export interface CreateTreatmentRequest {
-    id: number;
+    id?: number; // Deprecated: ids are assigned by the server when omitted
     patientId: number;
     date: string | Date;
-    content: string;
+    content?: string; // Required unless appointmentId or templateId is set; appended to the rendered template
     attachemnts?: TreatmentAttachment[];
+    practitionerId?: string | null;
+    roomId?: string | null;
+    bodyRegions?: BodyRegion[];
+    vasScore?: number | null; // 0-10
+    techniques?: string[];
+    sessionDuration?: number | null; // Minutes
+    soap?: Partial<SoapNote> | null; // Missing sections are stored empty
+    appointmentId?: string; // Set when the treatment is recorded by completing a visit
+    planId?: string | null; // Treatment plan the session counts towards
+    templateId?: string; // Treatment template rendered into the content
 }
 
 export interface UpdateTreatmentRequest {
@@ -14,10 +24,71 @@ export interface UpdateTreatmentRequest {
     content?: string;
     attachemnts?: TreatmentAttachment[];
     aiAnalysis?: any;
+    practitionerId?: string | null;
+    roomId?: string | null;
+    bodyRegions?: BodyRegion[];
+    vasScore?: number | null;
+    techniques?: string[];
+    sessionDuration?: number | null;
+    soap?: Partial<SoapNote> | null; // Replaces the whole note
+    planId?: string | null;
+    reason?: string; // Why the treatment is being changed, kept in its revision
+    changedBy?: string;
+}
+
+export interface CreateTreatmentAmendmentRequest {
+    content: string;
+    reason: string;
+    amendedBy?: string;
+}
+
+export interface TreatmentRevisionHistory {
+    treatmentId: number;
+    locked: boolean; // Locked treatments only accept amendments
+    lockedAt: Date;
+    revisions: TreatmentRevision[];
+}
+
+export interface TreatmentRevisionDiff {
+    treatmentId: number;
+    from: number;
+    to: number;
+    changes: Array<{ field: TreatmentRevisionField; from: unknown; to: unknown }>;
 }
 
 export interface TreatmentQueryParams {
     patientId?: string;
+    q?: string; // Full-text search on the treatment notes
+    planId?: string;
+    bodyRegion?: string;
+    technique?: string; // Case-insensitive, matches the whole technique name
+    vasMin?: string;
+    vasMax?: string;
+}
+
+export interface VasTrendQueryParams {
+    bodyRegion?: string;
+}
+
+export interface VasTrendPoint {
+    treatmentId: number;
+    date: string | Date;
+    vasScore: number;
+    bodyRegions: BodyRegion[];
+}
+
+export interface VasTrend {
+    patientId: number;
+    bodyRegion: BodyRegion | null;
+    points: VasTrendPoint[]; // Oldest first
+    summary: {
+        first: number;
+        last: number;
+        change: number; // last - first, negative when pain decreased
+        min: number;
+        max: number;
+        average: number;
+    } | null; // Null when no treatment has a VAS score
 }
 
 export interface TreatmentResponse {
@@ -0,0 +1,46 @@
+import { Appointment, Treatment, TreatmentPlan, TreatmentPlanResult, TreatmentPlanStatus } from '../models';
+
+export const TREATMENT_PLAN_STATUSES: TreatmentPlanStatus[] = ['active', 'completed', 'cancelled'];
+export const TREATMENT_PLAN_RESULTS: TreatmentPlanResult[] = ['resolved', 'improved', 'unchanged', 'worsened', 'discontinued'];
+
+export interface CreateTreatmentPlanRequest {
+    patientId: number;
+    goal: string;
+    prescribedSessions: number;
+    startDate?: string; // YYYY-MM-DD, defaults to today
+    endDate?: string | null; // YYYY-MM-DD
+    practitionerId?: string | null;
+    notes?: string;
+}
+
+export type UpdateTreatmentPlanRequest = Partial<Omit<CreateTreatmentPlanRequest, 'patientId'>>;
+
+export interface CloseTreatmentPlanRequest {
+    status?: Exclude<TreatmentPlanStatus, 'active'>; // Defaults to completed
+    result: TreatmentPlanResult;
+    notes?: string;
+    closedBy?: string;
+}
+
+export interface TreatmentPlanQueryParams {
+    patientId?: string;
+    status?: string;
+}
+
+export interface TreatmentPlanSessions {
+    prescribed: number;
+    used: number; // Treatments recorded on the plan
+    remaining: number; // Prescribed sessions not used yet
+    scheduled: number; // Scheduled or confirmed appointments booked on the plan
+}
+
+export type SerializedTreatmentPlan = Omit<TreatmentPlan, '_id'> & {
+    id: string;
+    sessions: TreatmentPlanSessions;
+};
+
+export interface TreatmentPlanSessionList {
+    planId: string;
+    treatments: Treatment[]; // Oldest first
+    appointments: Array<Omit<Appointment, '_id' | 'reminderClaims'> & { id: string }>; // Oldest first
+}
@@ -0,0 +1,47 @@
+import { TreatmentTemplate } from '../models';
+
+/**
+ * Placeholders available in treatment templates
+ */
+export const TREATMENT_TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+    'patient.name': 'First name',
+    'patient.surname': 'Surname',
+    'patient.fullName': 'First name and surname',
+    'patient.age': 'Age in years on the treatment date',
+    'patient.dateOfBirth': 'Date of birth',
+    'patient.sex': 'Sex (M or F)',
+    'patient.fiscalCode': 'Fiscal code',
+    'patient.allergies': 'Allergies from the anamnesis',
+    'patient.medications': 'Current medications from the anamnesis',
+    'lastTreatment.date': 'Date of the previous treatment',
+    'lastTreatment.daysAgo': 'Days since the previous treatment',
+    'treatment.date': 'Date of the treatment being written',
+    'today': 'Current date'
+};
+
+export interface CreateTreatmentTemplateRequest {
+    name: string;
+    category?: string;
+    content: string;
+    active?: boolean;
+}
+
+export type UpdateTreatmentTemplateRequest = Partial<CreateTreatmentTemplateRequest>;
+
+export interface TreatmentTemplateQueryParams {
+    category?: string;
+    active?: string;
+}
+
+export interface RenderTreatmentTemplateRequest {
+    patientId: number;
+    date?: string | Date; // Treatment date, defaults to now
+}
+
+export interface RenderedTreatmentTemplate {
+    templateId: string;
+    patientId: number;
+    content: string;
+}
+
+export type SerializedTreatmentTemplate = Omit<TreatmentTemplate, '_id'> & { id: string };
@@ -0,0 +1,39 @@
+import { Appointment, TimeRange, WaitlistEntry, WaitlistEntryStatus, WaitlistOffer, WaitlistOfferStatus } from '../models';
+
+export const WAITLIST_ENTRY_STATUSES: WaitlistEntryStatus[] = ['waiting', 'offered', 'booked', 'cancelled'];
+export const WAITLIST_OFFER_STATUSES: WaitlistOfferStatus[] = ['pending', 'accepted', 'declined', 'expired', 'withdrawn'];
+
+export interface CreateWaitlistEntryRequest {
+    patientId: number;
+    duration?: number; // Minutes, defaults to the standard appointment duration
+    practitionerId?: string | null;
+    preferredDays?: number[]; // Weekdays, 0 = Sunday
+    preferredTimes?: TimeRange[];
+    earliestDate?: string; // YYYY-MM-DD
+    latestDate?: string; // YYYY-MM-DD
+    priority?: number;
+    notes?: string;
+}
+
+export type UpdateWaitlistEntryRequest = Partial<Omit<CreateWaitlistEntryRequest, 'patientId'>>;
+
+export interface WaitlistQueryParams {
+    status?: string;
+    patientId?: string;
+    practitionerId?: string;
+}
+
+export interface WaitlistOfferQueryParams {
+    status?: string;
+    patientId?: string;
+    entryId?: string;
+}
+
+export type SerializedWaitlistEntry = Omit<WaitlistEntry, '_id'> & { id: string };
+
+export type SerializedWaitlistOffer = Omit<WaitlistOffer, '_id'> & { id: string };
+
+export interface AcceptedWaitlistOffer {
+    offer: SerializedWaitlistOffer;
+    appointment: Omit<Appointment, '_id'> & { id: string };
+}
@@ -0,0 +1,70 @@
+import { Anamnesis, AnamnesisSection } from '../models';
+import { FieldError } from './validation';
+
+const LIST_SECTIONS: AnamnesisSection[] = ['allergies', 'currentMedications', 'chronicConditions', 'pastSurgeries'];
+
+export const ANAMNESIS_SECTIONS: AnamnesisSection[] = [...LIST_SECTIONS, 'lifestyle'];
+
+/**
+ * Create an anamnesis with every section empty
+ */
+export function emptyAnamnesis(): Anamnesis {
+    return {
+        allergies: [],
+        currentMedications: [],
+        chronicConditions: [],
+        pastSurgeries: [],
+        lifestyle: ''
+    };
+}
+
+/**
+ * Validate a partial structured anamnesis from a request.
+ * List sections accept an array of strings; lifestyle accepts a string.
+ */
+export function validateAnamnesis(input: unknown): { value: Partial<Anamnesis>; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const value: Partial<Anamnesis> = {};
+
+    if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+        errors.push({ field: 'anamnesis', message: 'Anamnesis must be an object' });
+        return { value, errors };
+    }
+
+    const data = input as Record<string, unknown>;
+    for (const key of Object.keys(data)) {
+        if (!ANAMNESIS_SECTIONS.includes(key as AnamnesisSection)) {
+            errors.push({ field: `anamnesis.${key}`, message: 'Unknown anamnesis section' });
+        }
+    }
+
+    for (const section of LIST_SECTIONS) {
+        const sectionValue = data[section];
+        if (sectionValue === undefined) continue;
+
+        if (!Array.isArray(sectionValue) || sectionValue.some(item => typeof item !== 'string')) {
+            errors.push({ field: `anamnesis.${section}`, message: 'Must be an array of strings' });
+            continue;
+        }
+        (value as any)[section] = sectionValue.map(item => item.trim()).filter(item => item.length > 0);
+    }
+
+    if (data.lifestyle !== undefined) {
+        if (typeof data.lifestyle !== 'string') {
+            errors.push({ field: 'anamnesis.lifestyle', message: 'Must be a string' });
+        } else {
+            value.lifestyle = data.lifestyle.trim();
+        }
+    }
+
+    return { value, errors };
+}
+
+/**
+ * List the sections whose values differ between two anamneses
+ */
+export function diffAnamnesis(previous: Anamnesis, current: Anamnesis): AnamnesisSection[] {
+    return ANAMNESIS_SECTIONS.filter(section =>
+        JSON.stringify(previous[section]) !== JSON.stringify(current[section])
+    );
+}
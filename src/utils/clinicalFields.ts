@@ -0,0 +1,138 @@
+import { BodyRegion, SoapNote, TreatmentClinicalFields } from '../models';
+import { FieldError } from './validation';
+
+export const BODY_REGIONS: BodyRegion[] = [
+    'head',
+    'temporomandibular',
+    'cervical-spine',
+    'thoracic-spine',
+    'lumbar-spine',
+    'pelvis',
+    'shoulder',
+    'elbow',
+    'wrist-hand',
+    'hip',
+    'knee',
+    'ankle-foot',
+    'chest',
+    'abdomen',
+    'other'
+];
+
+export const SOAP_SECTIONS: (keyof SoapNote)[] = ['subjective', 'objective', 'assessment', 'plan'];
+
+export const VAS_MIN = 0;
+export const VAS_MAX = 10;
+const MAX_SESSION_DURATION = 480; // Minutes
+
+/**
+ * Validate the structured clinical fields of a treatment request.
+ * Only fields present in the input are validated and returned; null clears a field.
+ */
+export function validateClinicalFields(input: Partial<Record<keyof TreatmentClinicalFields, unknown>>): { value: TreatmentClinicalFields; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const value: TreatmentClinicalFields = {};
+
+    if (input.bodyRegions !== undefined) {
+        const regions = input.bodyRegions === null ? [] : input.bodyRegions;
+        if (!Array.isArray(regions) || regions.some(region => !BODY_REGIONS.includes(region))) {
+            errors.push({ field: 'bodyRegions', message: `Must be an array of: ${BODY_REGIONS.join(', ')}` });
+        } else {
+            value.bodyRegions = Array.from(new Set(regions as BodyRegion[]));
+        }
+    }
+
+    if (input.vasScore !== undefined) {
+        const score = input.vasScore;
+        if (score !== null && (typeof score !== 'number' || !Number.isInteger(score) || score < VAS_MIN || score > VAS_MAX)) {
+            errors.push({ field: 'vasScore', message: `Must be a whole number from ${VAS_MIN} to ${VAS_MAX}` });
+        } else {
+            value.vasScore = score as number | null;
+        }
+    }
+
+    if (input.techniques !== undefined) {
+        const techniques = input.techniques === null ? [] : input.techniques;
+        if (!Array.isArray(techniques) || techniques.some(item => typeof item !== 'string')) {
+            errors.push({ field: 'techniques', message: 'Must be an array of strings' });
+        } else {
+            // Keep the first spelling of techniques repeated with different casing
+            const trimmed = (techniques as string[]).map(item => item.trim()).filter(item => item.length > 0);
+            value.techniques = trimmed.filter((item, index) =>
+                trimmed.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index
+            );
+        }
+    }
+
+    if (input.sessionDuration !== undefined) {
+        const duration = input.sessionDuration;
+        if (duration !== null && (typeof duration !== 'number' || !Number.isInteger(duration) || duration < 1 || duration > MAX_SESSION_DURATION)) {
+            errors.push({ field: 'sessionDuration', message: `Must be a whole number of minutes from 1 to ${MAX_SESSION_DURATION}` });
+        } else {
+            value.sessionDuration = duration as number | null;
+        }
+    }
+
+    if (input.soap !== undefined) {
+        const { value: soap, errors: soapErrors } = validateSoap(input.soap);
+        errors.push(...soapErrors);
+        if (soapErrors.length === 0) value.soap = soap;
+    }
+
+    return { value, errors };
+}
+
+/**
+ * Validate a SOAP note; missing sections are stored empty and a note with every section empty is cleared
+ */
+function validateSoap(input: unknown): { value: SoapNote | null; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+
+    if (input === null) {
+        return { value: null, errors };
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        errors.push({ field: 'soap', message: 'SOAP note must be an object' });
+        return { value: null, errors };
+    }
+
+    const data = input as Record<string, unknown>;
+    for (const key of Object.keys(data)) {
+        if (!SOAP_SECTIONS.includes(key as keyof SoapNote)) {
+            errors.push({ field: `soap.${key}`, message: 'Unknown SOAP section' });
+        }
+    }
+
+    const soap: SoapNote = { subjective: '', objective: '', assessment: '', plan: '' };
+    for (const section of SOAP_SECTIONS) {
+        const sectionValue = data[section];
+        if (sectionValue === undefined || sectionValue === null) continue;
+
+        if (typeof sectionValue !== 'string') {
+            errors.push({ field: `soap.${section}`, message: 'Must be a string' });
+            continue;
+        }
+        soap[section] = sectionValue.trim();
+    }
+
+    const isEmpty = SOAP_SECTIONS.every(section => soap[section].length === 0);
+    return { value: isEmpty ? null : soap, errors };
+}
+
+/**
+ * Read the clinical fields of a multipart request, where each is sent JSON-encoded (e.g. vasScore=6, bodyRegions=["knee"]).
+ * Values that are not valid JSON are passed on as text, for validation to reject.
+ */
+export function readClinicalFormFields(formData: FormData): Partial<Record<keyof TreatmentClinicalFields, unknown>> {
+    const fields: Partial<Record<keyof TreatmentClinicalFields, unknown>> = {};
+    for (const field of ['bodyRegions', 'vasScore', 'techniques', 'sessionDuration', 'soap'] as const) {
+        const raw = formData.get(field)?.toString();
+        if (raw === undefined) continue;
+        try {
+            fields[field] = JSON.parse(raw);
+        } catch {
+            fields[field] = raw;
+        }
+    }
+    return fields;
+}
@@ -243,3 +243,18 @@ export function isDateInRange(date: Date, start: Date, end: Date): boolean {
     
     return normalizedDate >= normalizedStart && normalizedDate <= normalizedEnd;
 }
+
+/**
+ * Age in whole years at a given date
+ */
+export function calculateAge(dateOfBirth: Date | string, at: Date = new Date()): number | null {
+    const birthDate = normalizeDate(dateOfBirth);
+    if (!birthDate) return null;
+
+    let age = at.getFullYear() - birthDate.getFullYear();
+    const monthDiff = at.getMonth() - birthDate.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && at.getDate() < birthDate.getDate())) {
+        age--;
+    }
+    return age;
+}
@@ -1,11 +1,22 @@
+import { MongoServerError } from 'mongodb';
+
 export class HTTPError extends Error {
     constructor(
         message: string,
         public statusCode: number = 500,
-        public errorCode: string = 'Server Error'
+        public errorCode: string = 'Server Error',
+        public details?: unknown
     ) {
         super(message);
         this.name = 'HTTPError';
     }
 }
 
+
+/**
+ * Get the first field of the unique index a MongoDB write violated, or null for any other error
+ */
+export function getDuplicateKeyField(error: unknown): string | null {
+    if (!(error instanceof MongoServerError) || error.code !== 11000) return null;
+    return Object.keys(error.keyPattern ?? {})[0] ?? '';
+}
@@ -28,6 +28,14 @@ export function generateFileName(originalName: string): string {
     return `${Date.now()}-${Math.random().toString(36).substring(7)}-${originalName}`;
 }
 
+/**
+ * Recover the upload time encoded in a generated filename, if any
+ */
+export function getUploadTimeFromFileName(fileName: string): Date | null {
+    const match = fileName.match(/^(\d{13})-/);
+    return match ? new Date(Number(match[1])) : null;
+}
+
 /**
  * Save a file to the attachments directory
  */
@@ -45,28 +53,34 @@ export async function saveFile(file: File): Promise<{ fileName: string; filePath
 }
 
 /**
- * Delete a file from the filesystem
+ * Delete a file from the filesystem, returning whether a file was removed
  */
-export async function deleteFile(filePath: string): Promise<void> {
+export async function deleteFile(filePath: string): Promise<boolean> {
     if (existsSync(filePath)) {
         await unlink(filePath);
+        return true;
     }
+    return false;
 }
 
 /**
- * Delete attachment files
+ * Delete attachment files, returning the number of files removed
  */
-export async function deleteAttachmentFiles(attachments: TreatmentAttachment[]): Promise<void> {
+export async function deleteAttachmentFiles(attachments: TreatmentAttachment[]): Promise<number> {
+    let deleted = 0;
     for (const attachment of attachments) {
         if (attachment.type === 'file') {
             try {
                 const filePath = attachment.path || join(ATTACHMENTS_DIR, attachment.data);
-                await deleteFile(filePath);
+                if (await deleteFile(filePath)) {
+                    deleted++;
+                }
             } catch (error) {
                 console.error(`Error deleting attachment ${attachment.data}:`, error);
             }
         }
     }
+    return deleted;
 }
 
 /**
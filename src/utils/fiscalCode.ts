@@ -0,0 +1,162 @@
+/**
+ * Utilities for the Italian codice fiscale (tax code)
+ */
+
+export type Sex = 'M' | 'F';
+
+export interface DecodedFiscalCode {
+    surnameCode: string;
+    nameCode: string;
+    birthYear: number; // Two-digit year as encoded in the code
+    birthMonth: number; // 1-12
+    birthDay: number; // 1-31
+    sex: Sex;
+    birthPlaceCode: string; // Belfiore code of the municipality or foreign country
+}
+
+const FORMAT_REGEX = /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/;
+
+const MONTH_LETTERS = 'ABCDEHLMPRST';
+
+// Letters that replace digits in omocodic codes, indexed by digit value
+const OMOCODIA_LETTERS = 'LMNPQRSTUV';
+
+// Positions (0-based) that hold digits and may be replaced for omocodia
+const OMOCODIA_POSITIONS = [6, 7, 9, 10, 12, 13, 14];
+
+// Values used for characters in odd (1-based) positions when computing the check character
+const ODD_VALUES: Record<string, number> = {
+    '0': 1, '1': 0, '2': 5, '3': 7, '4': 9, '5': 13, '6': 15, '7': 17, '8': 19, '9': 21,
+    A: 1, B: 0, C: 5, D: 7, E: 9, F: 13, G: 15, H: 17, I: 19, J: 21, K: 2, L: 4, M: 18,
+    N: 20, O: 11, P: 3, Q: 6, R: 8, S: 12, T: 14, U: 16, V: 10, W: 22, X: 25, Y: 24, Z: 23
+};
+
+const VOWELS = 'AEIOU';
+
+/**
+ * Uppercase a fiscal code and strip whitespace
+ */
+export function normalizeFiscalCode(code: string): string {
+    return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Check whether a normalized code has the expected 16-character layout
+ */
+export function hasValidFiscalCodeFormat(code: string): boolean {
+    return FORMAT_REGEX.test(code);
+}
+
+/**
+ * Compute the check character for the first 15 characters of a code
+ */
+export function computeCheckCharacter(code: string): string {
+    let sum = 0;
+    for (let i = 0; i < 15; i++) {
+        const char = code[i];
+        if (i % 2 === 0) {
+            sum += ODD_VALUES[char];
+        } else {
+            sum += /[0-9]/.test(char) ? Number(char) : char.charCodeAt(0) - 65;
+        }
+    }
+    return String.fromCharCode(65 + (sum % 26));
+}
+
+/**
+ * Replace omocodia letters with the digits they stand for
+ */
+function removeOmocodia(code: string): string {
+    const chars = code.split('');
+    for (const position of OMOCODIA_POSITIONS) {
+        const index = OMOCODIA_LETTERS.indexOf(chars[position]);
+        if (index !== -1) {
+            chars[position] = String(index);
+        }
+    }
+    return chars.join('');
+}
+
+/**
+ * Decode the personal data embedded in a normalized, well-formed code.
+ * Returns null if the date or place portion is not meaningful.
+ */
+export function decodeFiscalCode(code: string): DecodedFiscalCode | null {
+    const plain = removeOmocodia(code);
+
+    const birthYear = Number(plain.slice(6, 8));
+    const birthMonth = MONTH_LETTERS.indexOf(plain[8]) + 1;
+    const dayValue = Number(plain.slice(9, 11));
+    const sex: Sex = dayValue > 40 ? 'F' : 'M';
+    const birthDay = sex === 'F' ? dayValue - 40 : dayValue;
+
+    if (birthDay < 1 || birthDay > 31) {
+        return null;
+    }
+
+    return {
+        surnameCode: plain.slice(0, 3),
+        nameCode: plain.slice(3, 6),
+        birthYear,
+        birthMonth,
+        birthDay,
+        sex,
+        birthPlaceCode: plain.slice(11, 15)
+    };
+}
+
+/**
+ * Strip accents and anything that is not a letter, then uppercase
+ */
+function lettersOnly(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Split a name into its consonants and vowels, preserving order
+ */
+function splitLetters(value: string): { consonants: string; vowels: string } {
+    const letters = lettersOnly(value);
+    let consonants = '';
+    let vowels = '';
+    for (const char of letters) {
+        if (VOWELS.includes(char)) {
+            vowels += char;
+        } else {
+            consonants += char;
+        }
+    }
+    return { consonants, vowels };
+}
+
+/**
+ * Compute the three-letter surname portion of a code
+ */
+export function computeSurnameCode(surname: string): string {
+    const { consonants, vowels } = splitLetters(surname);
+    return (consonants + vowels + 'XXX').slice(0, 3);
+}
+
+/**
+ * Compute the three-letter name portion of a code
+ */
+export function computeNameCode(name: string): string {
+    const { consonants, vowels } = splitLetters(name);
+    if (consonants.length >= 4) {
+        return consonants[0] + consonants[2] + consonants[3];
+    }
+    return (consonants + vowels + 'XXX').slice(0, 3);
+}
+
+/**
+ * Resolve a two-digit birth year to a full year, assuming the person is not born in the future
+ */
+export function resolveBirthYear(twoDigitYear: number, now: Date = new Date()): number {
+    const currentYear = now.getFullYear();
+    const candidate = 2000 + twoDigitYear;
+    return candidate <= currentYear ? candidate : 1900 + twoDigitYear;
+}
@@ -0,0 +1,100 @@
+import { CALENDAR_TIMEZONE, getZonedParts } from './ical';
+
+/**
+ * A public holiday on a calendar day
+ */
+export interface Holiday {
+    date: string; // YYYY-MM-DD
+    name: string;
+}
+
+/**
+ * Fixed-date Italian national holidays as [month, day, name]
+ */
+const FIXED_HOLIDAYS: Array<[number, number, string]> = [
+    [1, 1, 'Capodanno'],
+    [1, 6, 'Epifania'],
+    [4, 25, 'Festa della Liberazione'],
+    [5, 1, 'Festa del Lavoro'],
+    [6, 2, 'Festa della Repubblica'],
+    [8, 15, 'Ferragosto'],
+    [11, 1, 'Ognissanti'],
+    [12, 8, 'Immacolata Concezione'],
+    [12, 25, 'Natale'],
+    [12, 26, 'Santo Stefano']
+];
+
+/**
+ * Format a calendar day as YYYY-MM-DD; days past the end of the month roll over
+ */
+function formatDateKey(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Format the calendar day of an instant in the clinic's time zone as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+    const parts = getZonedParts(date, CALENDAR_TIMEZONE);
+    return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Get the day of the week of an instant in the clinic's time zone, 0 = Sunday
+ */
+export function getDayOfWeek(date: Date): number {
+    return new Date(`${toDateKey(date)}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Compute Easter Sunday of a year (Gregorian calendar, anonymous algorithm), as a UTC calendar date
+ */
+export function getEasterSunday(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Get the Italian national holidays of a year, in chronological order
+ */
+export function getItalianHolidays(year: number): Holiday[] {
+    const holidays: Holiday[] = FIXED_HOLIDAYS.map(([month, day, name]) => ({
+        date: formatDateKey(year, month, day),
+        name
+    }));
+
+    // San Francesco d'Assisi is a national holiday again from 2026
+    if (year >= 2026) {
+        holidays.push({ date: formatDateKey(year, 10, 4), name: "San Francesco d'Assisi" });
+    }
+
+    const easter = getEasterSunday(year);
+    holidays.push({ date: formatDateKey(year, easter.getUTCMonth() + 1, easter.getUTCDate()), name: 'Pasqua' });
+    holidays.push({
+        date: formatDateKey(year, easter.getUTCMonth() + 1, easter.getUTCDate() + 1),
+        name: "Lunedì dell'Angelo"
+    });
+
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Get the Italian national holiday falling on a date in the clinic's time zone, if any
+ */
+export function getItalianHoliday(date: Date): Holiday | null {
+    const key = toDateKey(date);
+    return getItalianHolidays(Number(key.slice(0, 4))).find(holiday => holiday.date === key) ?? null;
+}
@@ -0,0 +1,375 @@
+/**
+ * Time zone used for every event in exported calendars
+ */
+export const CALENDAR_TIMEZONE = 'Europe/Rome';
+
+/**
+ * VTIMEZONE definition for Europe/Rome (CET/CEST, EU daylight saving rules)
+ */
+const ROME_VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${CALENDAR_TIMEZONE}`,
+    `X-LIC-LOCATION:${CALENDAR_TIMEZONE}`,
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:+0100',
+    'TZOFFSETTO:+0200',
+    'TZNAME:CEST',
+    'DTSTART:19700329T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0100',
+    'TZNAME:CET',
+    'DTSTART:19701025T030000',
+    'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+];
+
+export type CalendarEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface CalendarEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+    location?: string;
+    status: CalendarEventStatus;
+    sequence: number;
+    created?: Date;
+    lastModified?: Date;
+}
+
+export interface CalendarOptions {
+    name: string;
+    events: CalendarEvent[];
+}
+
+export interface CalendarAttendee {
+    email?: string;
+    name?: string;
+}
+
+export interface ParsedCalendarEvent {
+    uid?: string;
+    start: Date | null;
+    end: Date | null;
+    allDay: boolean;
+    summary: string;
+    description: string;
+    status?: string;
+    recurring: boolean; // Has an RRULE (not expanded on import)
+    attendees: CalendarAttendee[];
+}
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a cached formatter for wall-clock parts in a time zone, or null for unknown zones
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+    if (!formatters.has(timeZone)) {
+        try {
+            formatters.set(timeZone, new Intl.DateTimeFormat('en-GB', {
+                timeZone,
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit',
+                hourCycle: 'h23'
+            }));
+        } catch {
+            return null;
+        }
+    }
+    return formatters.get(timeZone)!;
+}
+
+/**
+ * Get the wall-clock parts of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): Record<string, string> {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone)!.formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+    return parts;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant. Fields are [year, month (1-12), day, hour, minute, second]
+ * and may overflow, e.g. minute 600 is 10:00.
+ */
+export function fromZonedTime(fields: number[], timeZone: string): Date {
+    const [year, month, day, hour, minute, second] = fields;
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    const offsetAt = (timestamp: number) => {
+        const parts = getZonedParts(new Date(timestamp), timeZone);
+        const asUtc = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+            Number(parts.hour), Number(parts.minute), Number(parts.second));
+        return asUtc - timestamp;
+    };
+
+    // Apply the offset twice so times next to a DST change resolve correctly
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Format an instant as an RFC 5545 UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+export function formatUtcDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format an instant as a floating RFC 5545 date-time in Europe/Rome wall-clock time
+ */
+export function formatRomeDateTime(date: Date): string {
+    const parts = getZonedParts(date, CALENDAR_TIMEZONE);
+    return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ */
+export function foldLine(line: string): string {
+    const chunks: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of Array.from(line)) {
+        const bytes = Buffer.byteLength(char, 'utf8');
+        // Continuation lines start with a space, which counts towards their length
+        const limit = chunks.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            chunks.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    chunks.push(current);
+
+    return chunks.join('\r\n ');
+}
+
+/**
+ * Build a VCALENDAR document with one VEVENT per event
+ */
+export function buildCalendar(options: CalendarOptions): string {
+    const now = formatUtcDateTime(new Date());
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Senob//Appointments//IT',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(options.name)}`,
+        `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+        ...ROME_VTIMEZONE
+    ];
+
+    for (const event of options.events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${now}`,
+            `DTSTART;TZID=${CALENDAR_TIMEZONE}:${formatRomeDateTime(event.start)}`,
+            `DTEND;TZID=${CALENDAR_TIMEZONE}:${formatRomeDateTime(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            `STATUS:${event.status}`,
+            `SEQUENCE:${event.sequence}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+        if (event.created) lines.push(`CREATED:${formatUtcDateTime(event.created)}`);
+        if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+        lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Reverse TEXT escaping
+ */
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a content line into name, parameters and value, honouring quoted parameter values
+ */
+function parseContentLine(line: string): ContentLine | null {
+    const segments: string[] = [];
+    let current = '';
+    let quoted = false;
+    let index = 0;
+
+    for (; index < line.length; index++) {
+        const char = line[index];
+        if (char === '"') quoted = !quoted;
+        if (!quoted && (char === ';' || char === ':')) {
+            segments.push(current);
+            current = '';
+            if (char === ':') break;
+            continue;
+        }
+        current += char;
+    }
+    if (index >= line.length) return null;
+
+    const [name, ...rawParams] = segments;
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const separator = param.indexOf('=');
+        if (separator > 0) {
+            params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+        }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/**
+ * Parse a DATE or DATE-TIME property. Floating times are read in the clinic time zone,
+ * as are times in time zones the runtime does not know.
+ */
+function parseDateProperty(line: ContentLine): { date: Date | null; allDay: boolean } {
+    const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return { date: null, allDay: false };
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (hour === undefined) {
+        return { date: fromZonedTime([Number(year), Number(month), Number(day), 0, 0, 0], CALENDAR_TIMEZONE), allDay: true };
+    }
+
+    const fields = [year, month, day, hour, minute, second].map(Number);
+    if (utc) {
+        return { date: new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])), allDay: false };
+    }
+
+    const timeZone = line.params.TZID && getFormatter(line.params.TZID) ? line.params.TZID : CALENDAR_TIMEZONE;
+    return { date: fromZonedTime(fields, timeZone), allDay: false };
+}
+
+/**
+ * Parse an RFC 5545 DURATION value into milliseconds
+ */
+function parseDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total = ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60 * 60
+        + Number(hours || 0) * 60 * 60 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000;
+    return sign === '-' ? -total : total;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document
+ */
+export function parseCalendar(content: string): ParsedCalendarEvent[] {
+    // Unfold continuation lines before splitting
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: ParsedCalendarEvent[] = [];
+
+    let event: ParsedCalendarEvent | null = null;
+    let duration: number | null = null;
+    let depth = 0; // Nesting inside the current VEVENT (e.g. VALARM)
+
+    for (const rawLine of lines) {
+        const line = parseContentLine(rawLine);
+        if (!line) continue;
+
+        if (line.name === 'BEGIN') {
+            if (event) {
+                depth++;
+            } else if (line.value.toUpperCase() === 'VEVENT') {
+                event = { start: null, end: null, allDay: false, summary: '', description: '', recurring: false, attendees: [] };
+                duration = null;
+            }
+            continue;
+        }
+
+        if (line.name === 'END' && event) {
+            if (depth > 0) {
+                depth--;
+            } else {
+                if (!event.end && event.start && duration !== null) {
+                    event.end = new Date(event.start.getTime() + duration);
+                }
+                events.push(event);
+                event = null;
+            }
+            continue;
+        }
+
+        if (!event || depth > 0) continue;
+
+        switch (line.name) {
+            case 'UID':
+                event.uid = line.value.trim();
+                break;
+            case 'DTSTART': {
+                const { date, allDay } = parseDateProperty(line);
+                event.start = date;
+                event.allDay = allDay;
+                break;
+            }
+            case 'DTEND':
+                event.end = parseDateProperty(line).date;
+                break;
+            case 'DURATION':
+                duration = parseDuration(line.value);
+                break;
+            case 'SUMMARY':
+                event.summary = unescapeText(line.value).trim();
+                break;
+            case 'DESCRIPTION':
+                event.description = unescapeText(line.value).trim();
+                break;
+            case 'STATUS':
+                event.status = line.value.trim().toUpperCase();
+                break;
+            case 'RRULE':
+                event.recurring = true;
+                break;
+            case 'ATTENDEE': {
+                const email = line.value.replace(/^mailto:/i, '').trim();
+                event.attendees.push({
+                    email: email.includes('@') ? email : undefined,
+                    name: line.params.CN ? unescapeText(line.params.CN).trim() : undefined
+                });
+                break;
+            }
+        }
+    }
+
+    return events;
+}
@@ -0,0 +1,148 @@
+import { ObjectId } from 'mongodb';
+import { HTTPError } from './errors';
+
+export type SortDirection = 1 | -1;
+
+export type SortSpec = Array<[string, SortDirection]>;
+
+export interface PaginationParams {
+    limit: number;
+    page: number;
+    cursor?: Record<string, any>;
+}
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Parse a positive integer query parameter, falling back to a default value
+ */
+function parsePositiveInt(value: string | undefined, fallback: number, field: string): number {
+    if (value === undefined || value === '') return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new HTTPError(`Invalid ${field}: must be a positive integer`, 400, 'Validation Error');
+    }
+    return parsed;
+}
+
+/**
+ * Parse page, limit and cursor query parameters
+ */
+export function parsePaginationParams(params: { page?: string; limit?: string; cursor?: string }): PaginationParams {
+    const limit = Math.min(parsePositiveInt(params.limit, DEFAULT_LIMIT, 'limit'), MAX_LIMIT);
+    const page = parsePositiveInt(params.page, 1, 'page');
+    const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+
+    return { limit, page, cursor };
+}
+
+/**
+ * Encode the sort values of the last returned document into an opaque cursor
+ */
+export function encodeCursor(document: Record<string, any>, sort: SortSpec): string {
+    const values: Record<string, any> = {};
+    for (const [field] of sort) {
+        const value = document[field];
+        if (value instanceof ObjectId) {
+            values[field] = { $oid: value.toHexString() };
+        } else if (value instanceof Date) {
+            values[field] = { $date: value.toISOString() };
+        } else {
+            values[field] = value ?? null;
+        }
+    }
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Throw the error returned for any cursor not produced by encodeCursor
+ */
+function invalidCursor(): never {
+    throw new HTTPError('Invalid cursor', 400, 'Validation Error');
+}
+
+/**
+ * Decode a single cursor value: a scalar, null, or an encoded ObjectId or date. Anything else,
+ * query operators in particular, is rejected.
+ */
+function decodeCursorValue(value: unknown): unknown {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return value;
+    if (typeof value !== 'object' || Array.isArray(value)) invalidCursor();
+
+    const keys = Object.keys(value as object);
+    const encoded = value as Record<string, unknown>;
+    if (keys.length === 1 && typeof encoded.$oid === 'string' && ObjectId.isValid(encoded.$oid)) {
+        return new ObjectId(encoded.$oid);
+    }
+    if (keys.length === 1 && typeof encoded.$date === 'string') {
+        const date = new Date(encoded.$date);
+        if (!isNaN(date.getTime())) return date;
+    }
+    return invalidCursor();
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): Record<string, any> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        invalidCursor();
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) invalidCursor();
+    return Object.fromEntries(
+        Object.entries(parsed as Record<string, unknown>).map(([field, value]) => [field, decodeCursorValue(value)])
+    );
+}
+
+/**
+ * Build a filter selecting documents that come after the cursor position for the given sort.
+ * The sort must end with a unique field (usually _id) so that positions are unambiguous.
+ * Null and missing values sort before all others, as in MongoDB.
+ */
+export function buildCursorQuery(sort: SortSpec, cursor: Record<string, any>): Record<string, any> {
+    // Cursors hold exactly the sort fields; one made for another sort order is rejected
+    const fields = sort.map(([field]) => field);
+    const cursorFields = Object.keys(cursor);
+    if (cursorFields.length !== fields.length || cursorFields.some(field => !fields.includes(field))) {
+        invalidCursor();
+    }
+
+    const branches: Record<string, any>[] = [];
+
+    for (let i = 0; i < sort.length; i++) {
+        const branch: Record<string, any> = {};
+        for (let j = 0; j < i; j++) {
+            const [field] = sort[j];
+            branch[field] = cursor[field] ?? null;
+        }
+
+        const [field, direction] = sort[i];
+        const value = cursor[field] ?? null;
+        if (value === null) {
+            // Ascending, every non-null value follows a null; descending, nothing does
+            if (direction === -1) continue;
+            branch[field] = { $ne: null };
+        } else if (direction === 1) {
+            branch[field] = { $gt: value };
+        } else {
+            // Comparisons never match nulls, which come last in descending order
+            branch.$or = [{ [field]: { $lt: value } }, { [field]: null }];
+        }
+        branches.push(branch);
+    }
+
+    return { $or: branches };
+}
+
+/**
+ * Convert a sort specification to a MongoDB sort document
+ */
+export function toSortDocument(sort: SortSpec): Record<string, SortDirection> {
+    return Object.fromEntries(sort);
+}
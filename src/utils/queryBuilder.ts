@@ -44,3 +44,21 @@ export function buildDateRangeQuery(startDate?: string, endDate?: string, dateFi
     return query;
 }
 
+
+/**
+ * Escape a user-provided string for safe use inside a regular expression
+ */
+export function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a case-insensitive free-text search query over multiple fields
+ */
+export function buildTextSearchQuery(term: string | undefined, fields: string[]) {
+    const trimmed = term?.trim();
+    if (!trimmed) return {};
+
+    const pattern = new RegExp(escapeRegex(trimmed), 'i');
+    return { $or: fields.map(field => ({ [field]: pattern })) };
+}
@@ -0,0 +1,258 @@
+import { HTTPError } from './errors';
+import { CALENDAR_TIMEZONE, getZonedParts, fromZonedTime } from './ical';
+
+/**
+ * Supported subset of RFC 5545 recurrence rules:
+ * FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, COUNT, UNTIL, BYDAY (weekly only, no ordinals)
+ * and BYMONTHDAY (monthly only). Days and times are wall-clock in the clinic's time zone.
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    count?: number;
+    until?: Date;
+    byDay?: number[]; // 0 = Sunday ... 6 = Saturday
+    byMonthDay?: number[]; // 1-31
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bounds on generated occurrences and scanned periods, protect against runaway rules
+const MAX_OCCURRENCES = 5000;
+const MAX_PERIODS = 20000;
+
+/**
+ * Throw a validation error for an invalid recurrence rule
+ */
+function invalidRule(message: string): never {
+    throw new HTTPError(`Invalid RRULE: ${message}`, 400, 'Validation Error');
+}
+
+/**
+ * Parse an RFC 5545 UNTIL value (YYYYMMDD or YYYYMMDDTHHMMSS[Z])
+ */
+function parseUntil(value: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) invalidRule(`UNTIL value "${value}" is not a valid date`);
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (hour === undefined) {
+        // Date-only UNTIL includes the whole day
+        const endOfDay = fromZonedTime([Number(year), Number(month), Number(day), 23, 59, 59], CALENDAR_TIMEZONE);
+        return new Date(endOfDay.getTime() + 999);
+    }
+    if (utc) {
+        return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+    }
+    return fromZonedTime([Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second)], CALENDAR_TIMEZONE);
+}
+
+/**
+ * Format a date as an RFC 5545 UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+export function formatICalDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a recurrence rule string (with or without the "RRULE:" prefix)
+ */
+export function parseRRule(value: string): RecurrenceRule {
+    const source = value.trim().replace(/^RRULE:/i, '');
+    if (!source) invalidRule('rule is empty');
+
+    const parts: Record<string, string> = {};
+    for (const part of source.split(';')) {
+        const [key, val] = part.split('=');
+        if (!key || val === undefined) invalidRule(`malformed part "${part}"`);
+        parts[key.toUpperCase()] = val.toUpperCase();
+    }
+
+    const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+    for (const key of Object.keys(parts)) {
+        if (!supported.includes(key)) invalidRule(`${key} is not supported`);
+    }
+
+    const freq = parts.FREQ as RecurrenceFrequency;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) {
+        invalidRule('FREQ must be DAILY, WEEKLY or MONTHLY');
+    }
+
+    const rule: RecurrenceRule = { freq, interval: 1 };
+
+    if (parts.INTERVAL !== undefined) {
+        rule.interval = Number(parts.INTERVAL);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) invalidRule('INTERVAL must be a positive integer');
+    }
+
+    if (parts.COUNT !== undefined && parts.UNTIL !== undefined) {
+        invalidRule('COUNT and UNTIL cannot be combined');
+    }
+    if (parts.COUNT !== undefined) {
+        rule.count = Number(parts.COUNT);
+        if (!Number.isInteger(rule.count) || rule.count < 1) invalidRule('COUNT must be a positive integer');
+    }
+    if (parts.UNTIL !== undefined) {
+        rule.until = parseUntil(parts.UNTIL);
+    }
+
+    if (parts.BYDAY !== undefined) {
+        if (freq !== 'WEEKLY') invalidRule('BYDAY is only supported with FREQ=WEEKLY');
+        rule.byDay = parts.BYDAY.split(',').map(day => {
+            const index = WEEKDAYS.indexOf(day);
+            if (index === -1) invalidRule(`BYDAY value "${day}" is not supported`);
+            return index;
+        });
+    }
+
+    if (parts.BYMONTHDAY !== undefined) {
+        if (freq !== 'MONTHLY') invalidRule('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        rule.byMonthDay = parts.BYMONTHDAY.split(',').map(day => {
+            const value = Number(day);
+            if (!Number.isInteger(value) || value < 1 || value > 31) invalidRule(`BYMONTHDAY value "${day}" is not supported`);
+            return value;
+        });
+    }
+
+    return rule;
+}
+
+/**
+ * Serialize a recurrence rule back to its RFC 5545 form (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${formatICalDateTime(rule.until)}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAYS[day]).join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    return parts.join(';');
+}
+
+/**
+ * Wall-clock fields of a series start in the clinic's time zone
+ */
+interface SeriesStart {
+    year: number;
+    month: number; // 0-11
+    day: number;
+    weekday: number; // 0 = Sunday
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+}
+
+/**
+ * Read the wall-clock fields of a series start
+ */
+function toSeriesStart(dtstart: Date): SeriesStart {
+    const parts = getZonedParts(dtstart, CALENDAR_TIMEZONE);
+    const [year, month, day] = [Number(parts.year), Number(parts.month) - 1, Number(parts.day)];
+    return {
+        year,
+        month,
+        day,
+        weekday: new Date(Date.UTC(year, month, day)).getUTCDay(),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        millisecond: dtstart.getMilliseconds()
+    };
+}
+
+/**
+ * Build a calendar day; days past the end of the month roll over. Calendar days are held
+ * as UTC midnights so that day arithmetic is not affected by DST changes.
+ */
+function calendarDay(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Build the instant on the given calendar day keeping the wall-clock time of the series start
+ */
+function atTimeOf(day: Date, start: SeriesStart): Date {
+    const date = fromZonedTime(
+        [day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), start.hour, start.minute, start.second],
+        CALENDAR_TIMEZONE
+    );
+    return new Date(date.getTime() + start.millisecond);
+}
+
+/**
+ * Generate the candidate occurrences of one recurrence period, in chronological order
+ */
+function periodOccurrences(rule: RecurrenceRule, start: SeriesStart, period: number): Date[] {
+    const step = period * rule.interval;
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            return [atTimeOf(calendarDay(start.year, start.month, start.day + step), start)];
+        }
+        case 'WEEKLY': {
+            // Weeks start on Monday, as in Italian calendars
+            const offsetToMonday = (start.weekday + 6) % 7;
+            const monday = start.day - offsetToMonday + step * 7;
+            const days = rule.byDay?.length ? rule.byDay : [start.weekday];
+            return days
+                .map(day => (day + 6) % 7)
+                .sort((a, b) => a - b)
+                .map(offset => atTimeOf(calendarDay(start.year, start.month, monday + offset), start));
+        }
+        case 'MONTHLY': {
+            const month = start.month + step;
+            const days = rule.byMonthDay?.length ? rule.byMonthDay : [start.day];
+            return [...days]
+                .sort((a, b) => a - b)
+                .map(day => calendarDay(start.year, month, day))
+                // Skip days that do not exist in this month (e.g. the 31st of April)
+                .filter(date => date.getUTCMonth() === ((month % 12) + 12) % 12)
+                .map(date => atTimeOf(date, start));
+        }
+    }
+}
+
+/**
+ * Expand a recurrence rule into the occurrence start times within [rangeStart, rangeEnd],
+ * skipping excluded dates. COUNT is always counted from the series start.
+ */
+export function expandRRule(
+    rule: RecurrenceRule,
+    dtstart: Date,
+    rangeStart: Date,
+    rangeEnd: Date,
+    exdates: Date[] = []
+): Date[] {
+    const excluded = new Set(exdates.map(date => new Date(date).getTime()));
+    const start = toSeriesStart(dtstart);
+    const occurrences: Date[] = [];
+    let generated = 0;
+
+    for (let period = 0; period < MAX_PERIODS && generated < MAX_OCCURRENCES; period++) {
+        for (const occurrence of periodOccurrences(rule, start, period)) {
+            if (occurrence < dtstart) continue;
+            if (occurrence > rangeEnd) return occurrences;
+            if (rule.until && occurrence > rule.until) return occurrences;
+            if (rule.count !== undefined && generated >= rule.count) return occurrences;
+
+            generated++;
+            if (occurrence >= rangeStart && !excluded.has(occurrence.getTime())) {
+                occurrences.push(occurrence);
+            }
+        }
+    }
+
+    return occurrences;
+}
+
+/**
+ * Count how many occurrences (including excluded ones) fall strictly before a date.
+ * Used to split a COUNT-limited series.
+ */
+export function countOccurrencesBefore(rule: RecurrenceRule, dtstart: Date, before: Date): number {
+    return expandRRule(rule, dtstart, dtstart, new Date(before.getTime() - 1)).length;
+}
@@ -0,0 +1,37 @@
+import { countersCollection } from '../database';
+import { HTTPError } from './errors';
+
+export type SequenceName = 'patients' | 'treatments';
+
+/**
+ * Atomically allocate the next value of a numeric id sequence
+ */
+export async function nextSequenceValue(name: SequenceName): Promise<number> {
+    if (!countersCollection) {
+        throw new HTTPError('Database not initialized', 500, 'Database Error');
+    }
+
+    const counter = await countersCollection.findOneAndUpdate(
+        { _id: name },
+        { $inc: { seq: 1 } },
+        { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!counter) {
+        throw new HTTPError(`Failed to allocate ${name} id`, 500, 'Server Error');
+    }
+
+    return counter.seq;
+}
+
+/**
+ * Make sure a sequence will never hand out a value lower than or equal to one
+ * that was assigned by a client (supports clients that still send their own ids)
+ */
+export async function ensureSequenceAtLeast(name: SequenceName, value: number): Promise<void> {
+    if (!countersCollection) {
+        throw new HTTPError('Database not initialized', 500, 'Database Error');
+    }
+
+    await countersCollection.updateOne({ _id: name }, { $max: { seq: value } }, { upsert: true });
+}
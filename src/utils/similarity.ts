@@ -0,0 +1,53 @@
+/**
+ * Lowercase, strip accents and collapse anything that is not a letter or digit
+ */
+export function normalizeForComparison(value: string | undefined): string {
+    if (!value) return '';
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Keep only the digits of a phone number, dropping an Italian +39/0039 prefix
+ */
+export function normalizePhoneNumber(value: string | undefined): string {
+    if (!value) return '';
+    const digits = value.replace(/\D/g, '');
+    return digits.replace(/^(0039|39)(?=\d{9,10}$)/, '');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Similarity between two strings in the range 0-1, based on normalized edit distance.
+ * Returns null when either value is missing, so callers can skip the field.
+ */
+export function stringSimilarity(a: string | undefined, b: string | undefined): number | null {
+    const left = normalizeForComparison(a);
+    const right = normalizeForComparison(b);
+    if (!left || !right) return null;
+
+    const maxLength = Math.max(left.length, right.length);
+    return 1 - levenshteinDistance(left, right) / maxLength;
+}
@@ -0,0 +1,206 @@
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls, TLSSocket } from 'tls';
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+    user?: string;
+    password?: string;
+    from: string;
+    timeout?: number; // Milliseconds
+}
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * Minimal SMTP client connection: one command at a time, replies parsed from the socket stream
+ */
+class SmtpConnection {
+    private buffer = '';
+    private replies: SmtpReply[] = [];
+    private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+    private pendingLines: string[] = [];
+    private failure: Error | null = null;
+
+    constructor(private socket: Socket | TLSSocket, timeout: number) {
+        this.attach(socket, timeout);
+    }
+
+    /**
+     * Listen for replies and errors on a socket
+     */
+    private attach(socket: Socket | TLSSocket, timeout: number): void {
+        this.socket = socket;
+        socket.setTimeout(timeout);
+        socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+        socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+        socket.on('error', (error: Error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    private onData(data: string): void {
+        this.buffer += data;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+            const line = this.buffer.slice(0, newline);
+            this.buffer = this.buffer.slice(newline + 2);
+            this.pendingLines.push(line.slice(4));
+
+            // "250-..." continues a multi-line reply, "250 ..." ends it
+            if (line[3] !== '-') {
+                const reply = { code: Number(line.slice(0, 3)), lines: this.pendingLines };
+                this.pendingLines = [];
+                const waiter = this.waiting.shift();
+                if (waiter) waiter.resolve(reply);
+                else this.replies.push(reply);
+            }
+        }
+    }
+
+    private fail(error: Error): void {
+        if (this.failure) return;
+        this.failure = error;
+        for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+    }
+
+    /**
+     * Wait for the next reply and check its code
+     */
+    async expect(...codes: number[]): Promise<SmtpReply> {
+        const reply = this.replies.shift() ?? await new Promise<SmtpReply>((resolve, reject) => {
+            if (this.failure) reject(this.failure);
+            else this.waiting.push({ resolve, reject });
+        });
+
+        if (!codes.includes(reply.code)) {
+            throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+
+    /**
+     * Send a command and check the reply code
+     */
+    async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return await this.expect(...codes);
+    }
+
+    /**
+     * Upgrade the connection to TLS after STARTTLS
+     */
+    async upgrade(host: string, timeout: number): Promise<void> {
+        this.socket.removeAllListeners();
+        const secureSocket = await new Promise<TLSSocket>((resolve, reject) => {
+            const upgraded = connectTls({ socket: this.socket, servername: host }, () => resolve(upgraded));
+            upgraded.once('error', reject);
+        });
+        this.attach(secureSocket, timeout);
+    }
+
+    write(data: string): void {
+        this.socket.write(data);
+    }
+
+    close(): void {
+        this.socket.removeAllListeners();
+        this.socket.on('error', () => undefined);
+        this.socket.end();
+    }
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Extract the bare address from "Name <address>"
+ */
+function getAddress(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return (match ? match[1] : value).trim();
+}
+
+/**
+ * Build the MIME message; the body is base64 encoded so no line needs dot-stuffing
+ */
+function buildMessage(config: SmtpConfig, message: MailMessage, messageId: string): string {
+    const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+    return [
+        `From: ${config.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+        `Message-ID: ${messageId}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        body
+    ].join('\r\n');
+}
+
+/**
+ * Send a plain-text email and return its Message-ID
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<string> {
+    // A line break in an address or header would let the value inject SMTP commands or headers
+    for (const value of [config.from, message.to, message.subject]) {
+        if (/[\r\n]/.test(value)) {
+            throw new Error('Mail addresses and headers must not contain line breaks');
+        }
+    }
+
+    const timeout = config.timeout ?? 30000;
+
+    const socket = await new Promise<Socket | TLSSocket>((resolve, reject) => {
+        const opened: Socket | TLSSocket = config.secure
+            ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(opened))
+            : connectTcp({ host: config.host, port: config.port }, () => resolve(opened));
+        opened.once('error', reject);
+    });
+    const connection = new SmtpConnection(socket, timeout);
+
+    try {
+        await connection.expect(220);
+        let hello = await connection.command(`EHLO ${hostname()}`, 250);
+
+        if (!config.secure && hello.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+            await connection.command('STARTTLS', 220);
+            await connection.upgrade(config.host, timeout);
+            hello = await connection.command(`EHLO ${hostname()}`, 250);
+        }
+
+        if (config.user) {
+            const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password ?? ''}`, 'utf8').toString('base64');
+            await connection.command(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        const messageId = `<${randomBytes(12).toString('hex')}@${getAddress(config.from).split('@')[1] || hostname()}>`;
+        await connection.command(`MAIL FROM:<${getAddress(config.from)}>`, 250);
+        await connection.command(`RCPT TO:<${getAddress(message.to)}>`, 250, 251);
+        await connection.command('DATA', 354);
+        connection.write(`${buildMessage(config, message, messageId)}\r\n`);
+        await connection.command('.', 250);
+        await connection.command('QUIT', 221).catch(() => undefined);
+
+        return messageId;
+    } finally {
+        connection.close();
+    }
+}
@@ -0,0 +1,16 @@
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * List the distinct placeholder names used in a template, e.g. "patient.age" for {{patient.age}}
+ */
+export function findPlaceholders(content: string): string[] {
+    const names = Array.from(content.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+    return Array.from(new Set(names));
+}
+
+/**
+ * Replace every placeholder with its value; placeholders without a value become empty
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+    return content.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '');
+}
@@ -0,0 +1,88 @@
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+const COMBINING_MARKS = new RegExp('\\p{M}', 'gu');
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40; // Characters of context shown before the first match
+
+export interface TextHighlight {
+    start: number;
+    end: number;
+}
+
+export interface TextSnippet {
+    snippet: string;
+    highlights: TextHighlight[]; // Offsets into the snippet
+    matches: number; // Matched words in the whole text
+}
+
+/**
+ * Lowercase a word and strip accents, so "Città" and "citta" compare equal
+ */
+function foldWord(word: string): string {
+    return word.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+}
+
+/**
+ * Reduce a word to a rough Italian stem by dropping its final vowels, so singular and
+ * plural forms ("spalla", "spalle") and adjective endings ("sinistro", "sinistra") match.
+ * MongoDB's own stemmer decides what is found; this only locates the words to highlight.
+ */
+export function stemWord(word: string): string {
+    const folded = foldWord(word);
+    if (folded.length <= 3) return folded;
+    return folded.replace(/[aeiou]+$/, '') || folded;
+}
+
+/**
+ * Extract the stems of the words a text search looks for, ignoring negated terms ("-word", -"phrase")
+ */
+export function parseSearchTerms(query: string): string[] {
+    const stems = new Set<string>();
+    for (const token of query.match(/-?"[^"]*"?|-?\S+/g) || []) {
+        if (token.startsWith('-')) continue;
+        for (const word of token.match(WORD_PATTERN) || []) {
+            stems.add(stemWord(word));
+        }
+    }
+    return Array.from(stems);
+}
+
+/**
+ * Cut a snippet of a text around its first match with the search terms and locate the
+ * matched words in it. Returns null when no word of the text matches.
+ */
+export function buildSnippet(text: string, stems: string[]): TextSnippet | null {
+    const matches = Array.from(text.matchAll(WORD_PATTERN))
+        .filter(match => stems.includes(stemWord(match[0])))
+        .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+    if (matches.length === 0) return null;
+
+    let start = Math.max(0, matches[0].start - SNIPPET_LEAD);
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    // Do not cut words in half
+    if (start > 0) {
+        const nextSpace = text.slice(start, matches[0].start).search(/\s/);
+        start = nextSpace >= 0 ? start + nextSpace + 1 : matches[0].start;
+    }
+    if (end < text.length) {
+        const lastSpace = text.slice(matches[0].end, end).search(/\s\S*$/);
+        if (lastSpace >= 0) end = matches[0].end + lastSpace;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const snippet = prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix;
+    const highlights = matches
+        .filter(match => match.start >= start && match.end <= end)
+        .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }));
+
+    return { snippet, highlights, matches: matches.length };
+}
+
+/**
+ * Cut the start of a text as a snippet without highlights
+ */
+export function buildExcerpt(text: string): string {
+    const excerpt = text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).replace(/\s\S*$/, '')}…` : text;
+    return excerpt.replace(/\s/g, ' ');
+}
@@ -0,0 +1,78 @@
+import { Treatment, TreatmentAttachment, TreatmentRevision, TreatmentRevisionField, TreatmentSnapshot } from '../models';
+
+export const TREATMENT_REVISION_FIELDS: TreatmentRevisionField[] = [
+    'patientId',
+    'date',
+    'content',
+    'attachemnts',
+    'practitionerId',
+    'roomId',
+    'bodyRegions',
+    'vasScore',
+    'techniques',
+    'sessionDuration',
+    'soap',
+    'amendments'
+];
+
+/**
+ * Take the clinical fields of a treatment
+ */
+export function takeSnapshot(treatment: Partial<Treatment>): TreatmentSnapshot {
+    return {
+        patientId: Number(treatment.patientId),
+        date: treatment.date ?? '',
+        content: treatment.content ?? '',
+        attachemnts: treatment.attachemnts || [],
+        practitionerId: treatment.practitionerId ?? null,
+        roomId: treatment.roomId ?? null,
+        bodyRegions: treatment.bodyRegions || [],
+        vasScore: treatment.vasScore ?? null,
+        techniques: treatment.techniques || [],
+        sessionDuration: treatment.sessionDuration ?? null,
+        soap: treatment.soap ?? null,
+        amendments: treatment.amendments || []
+    };
+}
+
+/**
+ * List the fields whose values differ between two snapshots. Snapshots stored before a field
+ * was tracked count as holding its empty value.
+ */
+export function diffSnapshots(previous: TreatmentSnapshot, current: TreatmentSnapshot): TreatmentRevisionField[] {
+    const normalize = (value: unknown) => JSON.stringify(value instanceof Date ? value.toISOString() : value);
+    const [before, after] = [takeSnapshot(previous), takeSnapshot(current)];
+    return TREATMENT_REVISION_FIELDS.filter(field => normalize(before[field]) !== normalize(after[field]));
+}
+
+/**
+ * The revision for a treatment as originally recorded; treatments created before revisions
+ * were kept start from their state at the first change
+ */
+export function buildOriginalRevision(treatment: Treatment): TreatmentRevision {
+    return {
+        revision: 1,
+        kind: 'original',
+        changedAt: treatment.createdAt ?? new Date(treatment.date),
+        changedFields: [],
+        previous: {},
+        snapshot: takeSnapshot(treatment)
+    };
+}
+
+/**
+ * List the file attachments of a treatment, including files removed since but still referenced by its revisions
+ */
+export function collectAttachmentFiles(treatment: Treatment): TreatmentAttachment[] {
+    const files = new Map<string, TreatmentAttachment>();
+    const attachmentLists = [
+        treatment.attachemnts,
+        ...(treatment.revisions || []).flatMap(revision => [revision.previous.attachemnts, revision.snapshot.attachemnts])
+    ];
+    for (const attachment of attachmentLists.flatMap(list => list || [])) {
+        if (attachment.type === 'file' && !files.has(attachment.data)) {
+            files.set(attachment.data, attachment);
+        }
+    }
+    return Array.from(files.values());
+}
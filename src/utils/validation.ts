@@ -1,5 +1,39 @@
 import { HTTPError } from './errors';
 
+/**
+ * A validation failure tied to a specific request field
+ */
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+/**
+ * Throw a 400 error listing field-level validation failures, if any
+ */
+export function assertNoFieldErrors(errors: FieldError[]): void {
+    if (errors.length > 0) {
+        throw new HTTPError(
+            `Invalid fields: ${errors.map(error => error.field).join(', ')}`,
+            400,
+            'Validation Error',
+            { fields: errors }
+        );
+    }
+}
+
+/**
+ * A single mailbox: no whitespace, line breaks or characters with a meaning in mail headers
+ */
+const EMAIL_PATTERN = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+\.[^\s@<>()",;:]+$/;
+
+/**
+ * Check the format of an email address
+ */
+export function isValidEmail(value: unknown): boolean {
+    return typeof value === 'string' && EMAIL_PATTERN.test(value);
+}
+
 /**
  * Validate required fields in an object
  */